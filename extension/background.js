@@ -246,22 +246,59 @@ function pauseTimer(tabId) {
   }
 }
 
+// Same rules as canonicalUrl() in supabase/functions/_shared/url.ts, so a
+// tab opened from a result matches it across http/https, www./m./amp.
+// hosts, tracking params, fragments and AMP variants. Keep them in sync.
+const HOST_PREFIXES = /^(?:www\d*|m|mobile|amp)\./;
+const TRACKING_PARAMS = new Set([
+  "gclid", "gclsrc", "dclid", "fbclid", "msclkid", "yclid", "igshid",
+  "mc_cid", "mc_eid", "_ga", "_gl", "ref_src", "amp",
+]);
+
+function unwrapAmpCache(u) {
+  const host = u.hostname.toLowerCase();
+  const match = host.endsWith(".cdn.ampproject.org")
+    ? u.pathname.match(/^\/[cvi]\/(s\/)?(.+)$/)
+    : /^(www\.)?google\.[a-z.]+$/.test(host)
+      ? u.pathname.match(/^\/amp\/(s\/)?(.+)$/)
+      : null;
+  if (!match) return u;
+  try {
+    return new URL(`${match[1] ? "https" : "http"}://${match[2]}${u.search}`);
+  } catch {
+    return u;
+  }
+}
+
 function normalizeUrl(url) {
+  const fallback = () => url.trim().replace(/#.*$/, "").replace(/\/+$/, "").toLowerCase();
   try {
-    const u = new URL(url);
-    // Keep hostname, pathname, and search params (stripping common UTM junk)
-    let search = u.search;
-    if (search) {
-      const params = new URLSearchParams(search);
-      ["utm_source", "utm_medium", "utm_campaign", "utm_term", "utm_content", "fbclid", "gclid"].forEach(p => params.delete(p));
-      search = params.toString();
-      if (search) search = "?" + search;
-    }
-    const norm = (u.hostname + u.pathname).replace(/\/+$/, "").toLowerCase() + search;
+    const u = unwrapAmpCache(new URL(url.trim()));
+    if (u.protocol !== "http:" && u.protocol !== "https:") return fallback();
+
+    const fullHost = u.hostname.toLowerCase();
+    const stripped = fullHost.replace(HOST_PREFIXES, "");
+    const host = stripped.includes(".") ? stripped : fullHost;
+    const port = u.port ? `:${u.port}` : "";
+    const path = u.pathname
+      .replace(/\.amp\.html?$/i, ".html")
+      .replace(/\/amp\/?$/i, "")
+      .replace(/\/+$/, "");
+
+    const params = [...u.searchParams.entries()]
+      .filter(([name, value]) => {
+        const key = name.toLowerCase();
+        if (key.startsWith("utm_") || TRACKING_PARAMS.has(key)) return false;
+        return !(key === "outputtype" && value.toLowerCase() === "amp");
+      })
+      .sort(([a, av], [b, bv]) => a.localeCompare(b) || av.localeCompare(bv));
+    const search = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : "";
+
+    const norm = `${host}${port}${path}${search}`.toLowerCase();
     console.log(`[PersonaSearch] Normalized: ${url} -> ${norm}`);
     return norm;
   } catch {
-    return url.replace(/\/+$/, "").toLowerCase();
+    return fallback();
   }
 }
 
@@ -0,0 +1,24 @@
+import type { BlockedSummary } from "@/lib/api/search";
+
+interface Props {
+  blocked: BlockedSummary[];
+  /** Opens the settings where domains are unblocked */
+  onManage: () => void;
+}
+
+/** "N results hidden by your blocked domains: …" above the results */
+const BlockedNotice = ({ blocked, onManage }: Props) => {
+  if (blocked.length === 0) return null;
+  const total = blocked.reduce((sum, b) => sum + b.results, 0);
+  return (
+    <p className="text-xs text-muted-foreground">
+      {total} {total === 1 ? "result" : "results"} hidden by your blocked domains:{" "}
+      {blocked.map((b) => `${b.domain} (${b.results})`).join(", ")}.{" "}
+      <button type="button" className="font-medium text-primary hover:underline" onClick={onManage}>
+        Manage
+      </button>
+    </p>
+  );
+};
+
+export default BlockedNotice;
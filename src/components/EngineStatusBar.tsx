@@ -1,16 +1,6 @@
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle2, AlertCircle } from "lucide-react";
-import type { EngineSummary } from "@/lib/api/search";
-
-const METHOD_LABELS: Record<string, string> = {
-  borda: "Borda",
-  shimura: "Shimura",
-  modal: "Modal Value",
-  mfo: "MFO",
-  mbv: "MBV",
-  owa: "OWA-Shimura",
-  biased: "Biased",
-};
+import { CheckCircle2, AlertCircle, Clock } from "lucide-react";
+import { METHOD_LABELS, type EngineSummary } from "@/lib/api/search";
 
 const INTENT_LABELS: Record<string, string> = {
   generic:  "🔍 Generic",
@@ -53,8 +43,14 @@ const EngineStatusBar = ({ engines, totalResults, queryTime, aggregationMethod,
       )}
       <span className="text-border">|</span>
       {engines.map((e) => (
-        <div key={e.engine} className="flex items-center gap-1">
-          {e.error ? (
+        <div
+          key={e.engine}
+          className={`flex items-center gap-1 ${e.timed_out ? "opacity-70" : ""}`}
+          title={e.timed_out ? `${e.engine} timed out — results aggregated without it` : e.error}
+        >
+          {e.timed_out ? (
+            <Clock className="h-3 w-3 text-amber-500" aria-label="Timed out" />
+          ) : e.error ? (
             <AlertCircle className="h-3 w-3 text-destructive" />
           ) : (
             <CheckCircle2 className="h-3 w-3 text-green-500" />
@@ -0,0 +1,76 @@
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { HelpCircle } from "lucide-react";
+import type { RankExplanation } from "@/lib/api/search";
+
+interface Props {
+  explanation: RankExplanation;
+}
+
+const formatScore = (value: number) =>
+  Number.isInteger(value) ? value.toString() : value.toFixed(3).replace(/\.?0+$/, "");
+
+const RankExplanationPopover = ({ explanation }: Props) => {
+  const total = explanation.contributions.reduce((sum, c) => sum + Math.abs(c.value), 0);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-5 gap-1 px-1.5 text-[10px] text-muted-foreground">
+          <HelpCircle className="h-3 w-3" />
+          Why this result?
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 text-xs">
+        <div className="mb-2 flex items-baseline justify-between gap-2">
+          <p className="font-medium text-foreground">{explanation.score_label}</p>
+          <span className="font-mono text-foreground">{formatScore(explanation.score)}</span>
+        </div>
+        {explanation.lower_is_better && (
+          <p className="mb-2 text-muted-foreground">Lower scores rank higher for this method.</p>
+        )}
+
+        {explanation.contributions.length > 0 && (
+          <div className="space-y-1.5">
+            {explanation.contributions.map((c) => (
+              <div key={c.engine}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-foreground">
+                    {c.engine.replace("_", " ")}
+                    <span className="ml-1 text-muted-foreground">{c.rank !== null ? `#${c.rank}` : "—"}</span>
+                    {c.weight !== undefined && <span className="ml-1 text-muted-foreground">×{formatScore(c.weight)}</span>}
+                  </span>
+                  <span className="font-mono text-muted-foreground">{formatScore(c.value)}</span>
+                </div>
+                <div className="mt-0.5 h-1 overflow-hidden rounded bg-muted">
+                  <div
+                    className="h-full bg-primary/60"
+                    style={{ width: `${total > 0 ? (Math.abs(c.value) / total) * 100 : 0}%` }}
+                  />
+                </div>
+                {c.note && <p className="mt-0.5 text-[10px] text-muted-foreground">{c.note}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {explanation.adjustments.length > 0 && (
+          <div className="mt-3 space-y-0.5 border-t pt-2">
+            {explanation.adjustments.map((a) => (
+              <div key={a.label} className="flex items-center justify-between gap-2">
+                <span className="truncate text-muted-foreground">{a.label}</span>
+                <span className="font-mono text-muted-foreground">{formatScore(a.value)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {explanation.tiebreak && (
+          <p className="mt-3 border-t pt-2 text-muted-foreground">{explanation.tiebreak}</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default RankExplanationPopover;
@@ -1,16 +1,31 @@
 import { Card } from "@/components/ui/card";
-import { Cloud, BookOpen, Sparkles, MessageSquare } from "lucide-react";
-import type { RichBlocks } from "@/lib/api/search";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Cloud, BookOpen, Sparkles, MessageSquare, HelpCircle, Search, Users } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import type { RelatedQuery, RelatedQuestion, RichBlocks } from "@/lib/api/search";
 
 interface Props {
   blocks?: RichBlocks;
+  /** Runs a related query; without it the related chips aren't shown */
+  onSearch?: (query: string) => void;
 }
 
-const RichWidgets = ({ blocks }: Props) => {
+const RichWidgets = ({ blocks, onSearch }: Props) => {
   if (!blocks) return null;
-  const { weather, dictionary, images, knowledge_graph, answer_box } = blocks;
+  const {
+    weather,
+    dictionary,
+    images,
+    knowledge_graph,
+    answer_box,
+    related_questions,
+    related_searches,
+    people_also_search_for,
+  } = blocks;
+  const hasRelated = !!onSearch && (!!related_searches?.length || !!people_also_search_for?.length);
   const hasAny =
-    weather || dictionary || (images && images.length > 0) || knowledge_graph || answer_box;
+    weather || dictionary || (images && images.length > 0) || knowledge_graph || answer_box ||
+    !!related_questions?.length || hasRelated;
   if (!hasAny) return null;
 
   return (
@@ -20,6 +35,13 @@ const RichWidgets = ({ blocks }: Props) => {
       {answer_box && !dictionary && !weather && <AnswerBoxWidget data={answer_box} />}
       {knowledge_graph && <KnowledgeGraphWidget data={knowledge_graph} />}
       {images && images.length > 0 && <ImagesWidget images={images} />}
+      {related_questions && related_questions.length > 0 && <RelatedQuestionsWidget questions={related_questions} />}
+      {onSearch && people_also_search_for && people_also_search_for.length > 0 && (
+        <RelatedQueriesWidget title="People also search for" icon={Users} items={people_also_search_for} onSearch={onSearch} />
+      )}
+      {onSearch && related_searches && related_searches.length > 0 && (
+        <RelatedQueriesWidget title="Related searches" icon={Search} items={related_searches} onSearch={onSearch} />
+      )}
     </div>
   );
 };
@@ -207,4 +229,71 @@ const AnswerBoxWidget = ({ data }: { data: any }) => {
   );
 };
 
+// ── People also ask ────────────────────────────────────────────────
+const RelatedQuestionsWidget = ({ questions }: { questions: RelatedQuestion[] }) => {
+  return (
+    <Card className="border-border bg-card px-4 pt-4 pb-1">
+      <div className="flex items-center gap-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+        <HelpCircle className="h-3 w-3" />
+        People also ask
+      </div>
+      <Accordion type="multiple" className="mt-1">
+        {questions.map((q, i) => (
+          <AccordionItem key={q.question} value={String(i)} className="last:border-b-0">
+            <AccordionTrigger className="py-3 text-left text-sm">{q.question}</AccordionTrigger>
+            <AccordionContent>
+              {q.answer && <p className="text-sm text-foreground">{q.answer}</p>}
+              {q.link && (
+                <a
+                  href={q.link}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="mt-2 inline-block text-xs text-primary hover:underline"
+                >
+                  {q.title || q.link}
+                </a>
+              )}
+            </AccordionContent>
+          </AccordionItem>
+        ))}
+      </Accordion>
+    </Card>
+  );
+};
+
+// ── Related searches / People also search for ─────────────────────
+const RelatedQueriesWidget = ({
+  title,
+  icon: Icon,
+  items,
+  onSearch,
+}: {
+  title: string;
+  icon: LucideIcon;
+  items: RelatedQuery[];
+  onSearch: (query: string) => void;
+}) => {
+  return (
+    <Card className="border-border bg-card p-3">
+      <div className="mb-2 flex items-center gap-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+        <Icon className="h-3 w-3" />
+        {title}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {items.map((item) => (
+          <button
+            key={item.query}
+            type="button"
+            onClick={() => onSearch(item.query)}
+            className="flex items-center gap-1.5 rounded-full border border-border bg-muted/40 px-3 py-1 text-xs text-foreground transition-colors hover:border-primary/40 hover:bg-primary/5"
+          >
+            {item.image && <img src={item.image} alt="" className="h-5 w-5 rounded-full object-cover" />}
+            {item.query}
+          </button>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
 export default RichWidgets;
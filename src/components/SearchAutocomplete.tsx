@@ -0,0 +1,124 @@
+import { useEffect, useState, type ComponentProps, type KeyboardEvent } from "react";
+import { Input } from "@/components/ui/input";
+import { Command, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
+import { History, Search, Sparkles, TrendingUp } from "lucide-react";
+import { useSearchSuggestions } from "@/hooks/useSearchSuggestions";
+import type { SuggestionSource } from "@/lib/api/suggestions";
+
+type InputProps = Omit<ComponentProps<typeof Input>, "value" | "onChange" | "onKeyDown" | "onBlur">;
+
+interface Props extends InputProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  /** A suggestion was chosen from the dropdown */
+  onPick: (text: string) => void;
+}
+
+const SOURCE_ICONS: Record<SuggestionSource, typeof History> = {
+  history: History,
+  learned: Sparkles,
+  popular: TrendingUp,
+};
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * The search box with an autocomplete dropdown. Must sit inside a
+ * `relative` container, which the dropdown is positioned against.
+ *
+ * The first row is always the text as typed, so Enter without moving the
+ * highlight submits the surrounding form as usual; ↑/↓ move through the
+ * suggestions, Enter picks the highlighted one and Escape closes the list.
+ */
+const SearchAutocomplete = ({ value, onValueChange, onPick, ...inputProps }: Props) => {
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const suggestions = useSearchSuggestions(value, open);
+
+  const typed = value.trim();
+  const items = [
+    { text: typed, sources: [] as SuggestionSource[] },
+    ...suggestions.filter((s) => normalize(s.text) !== normalize(typed)),
+  ];
+  const showList = open && items.length > 1;
+
+  useEffect(() => setActive(0), [suggestions]);
+
+  const pick = (text: string) => {
+    setOpen(false);
+    onValueChange(text);
+    onPick(text);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!showList) return;
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActive((i) => (i + 1) % items.length);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActive((i) => (i - 1 + items.length) % items.length);
+        break;
+      case "Enter":
+        if (active > 0) {
+          e.preventDefault();
+          pick(items[active].text);
+        } else {
+          setOpen(false);
+        }
+        break;
+      case "Escape":
+        setOpen(false);
+        break;
+    }
+  };
+
+  return (
+    <>
+      <Input
+        {...inputProps}
+        value={value}
+        onChange={(e) => {
+          onValueChange(e.target.value);
+          setOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setOpen(false)}
+        role="combobox"
+        aria-expanded={showList}
+        aria-autocomplete="list"
+      />
+      {showList && (
+        <Command
+          shouldFilter={false}
+          value={items[active].text}
+          onValueChange={(v) => {
+            const i = items.findIndex((item) => item.text === v);
+            if (i >= 0) setActive(i);
+          }}
+          // Keep focus in the input so clicking an item doesn't blur it first
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute left-0 right-0 top-full z-50 mt-1 h-auto border text-left shadow-md"
+        >
+          <CommandList>
+            <CommandGroup>
+              {items.map((item, i) => {
+                const Icon = i === 0 ? Search : SOURCE_ICONS[item.sources[0]];
+                return (
+                  <CommandItem key={item.text} value={item.text} onSelect={() => pick(item.text)} className="gap-2">
+                    <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{item.text}</span>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      )}
+    </>
+  );
+};
+
+export default SearchAutocomplete;
@@ -1,8 +1,11 @@
 import { useState, useRef, useEffect, useCallback } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Bookmark, Mail, Printer, Save, ExternalLink, Check } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Bookmark, Mail, Printer, Save, ExternalLink, Check, ChevronDown, ThumbsUp, ThumbsDown, Pin, Ban } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import RankExplanationPopover from "@/components/RankExplanationPopover";
+import { blockDomain, domainOf, judgeResult, pinResult, unpinResult, type Judgment } from "@/lib/api/explicitFeedback";
 import type { ResultWithId } from "@/pages/Index";
 import type { useFeedbackTracker } from "@/hooks/useFeedbackTracker";
 
@@ -10,6 +13,12 @@ interface SearchResultCardProps {
   result: ResultWithId;
   index: number;
   feedback: ReturnType<typeof useFeedbackTracker>;
+  /** Interleaving impression the result list belongs to, if any */
+  interleavingId?: string;
+  /** Query the results are for; set for signed-in users, enabling the explicit feedback controls */
+  query?: string;
+  /** The result's domain was blocked */
+  onBlockDomain?: (domain: string) => void;
 }
 
 const engineColors: Record<string, string> = {
@@ -17,16 +26,23 @@ const engineColors: Record<string, string> = {
   bing: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200",
   duckduckgo: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
   learned: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
+  community: "bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200",
   local_index: "bg-cyan-100 text-cyan-800 dark:bg-cyan-900 dark:text-cyan-200",
+  internal_docs: "bg-rose-100 text-rose-800 dark:bg-rose-900 dark:text-rose-200",
 };
 
-const SearchResultCard = ({ result, index, feedback }: SearchResultCardProps) => {
+const SearchResultCard = ({ result, index, feedback, interleavingId, query, onBlockDomain }: SearchResultCardProps) => {
   const snippetRef = useRef<HTMLParagraphElement>(null);
   const { toast } = useToast();
 
   // Track which actions have been performed (for visual feedback)
   const [actions, setActions] = useState<Record<string, boolean>>({});
 
+  // Explicit feedback, stored server-side for this query
+  const [judgment, setJudgment] = useState<Judgment | null>(result.judgment ?? null);
+  const [pinned, setPinned] = useState(!!result.pinned);
+  const domain = domainOf(result.url);
+
   // Pick the first available search_result_id for this merged result
   const searchResultId = Object.values(result.resultIds)[0];
 
@@ -56,17 +72,22 @@ const SearchResultCard = ({ result, index, feedback }: SearchResultCardProps) =>
     return () => el.removeEventListener("copy", handler);
   }, [searchResultId, feedback]);
 
-  // V + T — track click order, notify extension for dwell tracking
-  const handleLinkClick = useCallback(() => {
+  // V + T — track click order, notify extension for dwell tracking.
+  // A click on one of the near-duplicates counts for this result.
+  const handleLinkClick = useCallback((url: string) => {
     if (!searchResultId) return;
-    feedback.trackClick({ searchResultId, url: result.url });
+    feedback.trackClick({
+      searchResultId,
+      url,
+      interleaving: interleavingId && result.team ? { impressionId: interleavingId, url: result.url } : undefined,
+    });
 
     // Notify the Chrome extension to start tracking dwell time
     // The extension's content script listens for this message
     window.postMessage(
       {
         type: "PERSONASEARCH_TRACK_START",
-        url: result.url,
+        url,
         searchResultId,
         supabaseUrl: import.meta.env.VITE_SUPABASE_URL,
         authToken: feedback.getAuthToken?.() || "",
@@ -82,7 +103,7 @@ const SearchResultCard = ({ result, index, feedback }: SearchResultCardProps) =>
       }
     };
     document.addEventListener("visibilitychange", onVisible);
-  }, [searchResultId, result.url, feedback]);
+  }, [searchResultId, result.url, result.team, interleavingId, feedback]);
 
   const handleAction = useCallback(
     (action: string) => {
@@ -126,6 +147,72 @@ const SearchResultCard = ({ result, index, feedback }: SearchResultCardProps) =>
     [searchResultId, feedback, result, toast],
   );
 
+  const explicitFailed = (e: unknown) =>
+    toast({
+      title: "Couldn't save your feedback",
+      description: e instanceof Error ? e.message : "Please try again.",
+      variant: "destructive",
+    });
+
+  const handleJudge = async (next: Judgment) => {
+    if (!query) return;
+    const value = judgment === next ? null : next;
+    const previous = judgment;
+    setJudgment(value);
+    try {
+      await judgeResult(query, result.url, value);
+    } catch (e) {
+      setJudgment(previous);
+      explicitFailed(e);
+    }
+  };
+
+  const handlePin = async () => {
+    if (!query) return;
+    setPinned(!pinned);
+    try {
+      if (pinned) await unpinResult(query, result.url);
+      else await pinResult(query, result);
+      toast({ description: pinned ? "Unpinned" : "Pinned to the top for this query ✓", duration: 1500 });
+    } catch (e) {
+      setPinned(pinned);
+      explicitFailed(e);
+    }
+  };
+
+  const handleBlock = async () => {
+    if (!domain) return;
+    try {
+      await blockDomain(domain);
+      onBlockDomain?.(domain);
+    } catch (e) {
+      explicitFailed(e);
+    }
+  };
+
+  const FeedbackButton = ({
+    title,
+    icon: Icon,
+    active,
+    onClick,
+  }: {
+    title: string;
+    icon: typeof Save;
+    active?: boolean;
+    onClick: () => void;
+  }) => (
+    <Button
+      variant="ghost"
+      size="icon"
+      className={`h-6 w-6 ${active ? "text-primary bg-primary/10" : "text-muted-foreground"}`}
+      title={title}
+      aria-pressed={active}
+      onClick={onClick}
+    >
+      <Icon className="h-3 w-3" />
+    </Button>
+  );
+
   const ActionButton = ({
     action,
     title,
@@ -162,6 +249,7 @@ const SearchResultCard = ({ result, index, feedback }: SearchResultCardProps) =>
             <span className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-muted text-xs font-medium text-muted-foreground">
               {index + 1}
             </span>
+            {pinned && <Pin className="h-3 w-3 shrink-0 text-primary" aria-label="Pinned" />}
             <p className="truncate text-xs text-muted-foreground">{displayUrl}</p>
           </div>
           <a
@@ -169,7 +257,7 @@ const SearchResultCard = ({ result, index, feedback }: SearchResultCardProps) =>
             target="_blank"
             rel="noopener noreferrer"
             className="mb-1 inline-flex items-center gap-1 text-base font-medium text-primary hover:underline"
-            onClick={handleLinkClick}
+            onClick={() => handleLinkClick(result.url)}
           >
             {result.title}
             <ExternalLink className="h-3 w-3 shrink-0 opacity-0 transition-opacity group-hover:opacity-100" />
@@ -192,7 +280,57 @@ const SearchResultCard = ({ result, index, feedback }: SearchResultCardProps) =>
                 {e.engine} #{e.rank}
               </Badge>
             ))}
+            {result.explanation && <RankExplanationPopover explanation={result.explanation} />}
+            {query && (
+              <div className="ml-auto flex items-center gap-0.5">
+                <FeedbackButton
+                  title="Relevant"
+                  icon={ThumbsUp}
+                  active={judgment === "relevant"}
+                  onClick={() => handleJudge("relevant")}
+                />
+                <FeedbackButton
+                  title="Not relevant"
+                  icon={ThumbsDown}
+                  active={judgment === "not_relevant"}
+                  onClick={() => handleJudge("not_relevant")}
+                />
+                <FeedbackButton
+                  title={pinned ? "Unpin from this query" : "Pin to the top for this query"}
+                  icon={Pin}
+                  active={pinned}
+                  onClick={handlePin}
+                />
+                {domain && (
+                  <FeedbackButton title={`Never show ${domain}`} icon={Ban} onClick={handleBlock} />
+                )}
+              </div>
+            )}
           </div>
+          {result.duplicates && result.duplicates.length > 0 && (
+            <Collapsible className="mt-2">
+              <CollapsibleTrigger asChild>
+                <Button variant="ghost" size="sm" className="group/dups h-6 gap-1 px-1.5 text-xs text-muted-foreground">
+                  <ChevronDown className="h-3 w-3 transition-transform group-data-[state=open]/dups:rotate-180" />
+                  {result.duplicates.length} similar result{result.duplicates.length === 1 ? "" : "s"}
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="mt-1 space-y-1 border-l pl-3">
+                {result.duplicates.map((d) => (
+                  <a
+                    key={d.url}
+                    href={d.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block truncate text-xs text-primary hover:underline"
+                    onClick={() => handleLinkClick(d.url)}
+                  >
+                    {d.title || d.url}
+                  </a>
+                ))}
+              </CollapsibleContent>
+            </Collapsible>
+          )}
         </div>
         <div className="flex shrink-0 flex-col gap-0.5 opacity-0 transition-opacity group-hover:opacity-100">
           <ActionButton action="save" title="Save" icon={Save} />
@@ -0,0 +1,50 @@
+import type { DidYouMean } from "@/lib/api/search";
+
+interface Props {
+  /** The query the results on screen are for */
+  query: string;
+  didYouMean: DidYouMean | null;
+  /** Set when `query` is an automatic correction of what the user typed */
+  correctedFrom?: string;
+  /** `exact` asks for the query to be searched as typed, without auto-correction */
+  onSearch: (query: string, exact: boolean) => void;
+}
+
+const linkClass = "font-medium italic text-primary hover:underline";
+
+/** "Showing results for … / Search instead for …" and "Did you mean …?" above the results */
+const SpellingNotice = ({ query, didYouMean, correctedFrom, onSearch }: Props) => {
+  if (correctedFrom) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        <p>
+          Showing results for <span className="font-medium italic text-foreground">{query}</span>
+        </p>
+        <p className="text-xs">
+          Search instead for{" "}
+          <button type="button" className={linkClass} onClick={() => onSearch(correctedFrom, true)}>
+            {correctedFrom}
+          </button>
+        </p>
+      </div>
+    );
+  }
+
+  if (!didYouMean) return null;
+  return (
+    <p className="text-sm text-muted-foreground">
+      Did you mean{" "}
+      <button
+        type="button"
+        className={linkClass}
+        title={`Suggested by ${didYouMean.engines.map((e) => e.replace("_", " ")).join(", ")}`}
+        onClick={() => onSearch(didYouMean.query, false)}
+      >
+        {didYouMean.query}
+      </button>
+      ?
+    </p>
+  );
+};
+
+export default SpellingNotice;
@@ -0,0 +1,222 @@
+import { Badge } from "@/components/ui/badge";
+import { Clock, ExternalLink, FileText, Play, Quote, Star } from "lucide-react";
+import type { Vertical, VerticalResult } from "@/lib/api/search";
+
+interface Props {
+  vertical: Exclude<Vertical, "web">;
+  items: VerticalResult[];
+}
+
+const VerticalResults = ({ vertical, items }: Props) => {
+  if (vertical === "images") return <ImageResultGrid items={items} />;
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, i) => {
+        switch (vertical) {
+          case "news":
+            return <NewsResultCard key={item.url} item={item} />;
+          case "videos":
+            return <VideoResultCard key={item.url} item={item} />;
+          case "scholar":
+            return <ScholarResultCard key={item.url} item={item} index={i} />;
+          case "shopping":
+            return <ShoppingResultCard key={item.url} item={item} />;
+        }
+      })}
+    </div>
+  );
+};
+
+const hostname = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+};
+
+const formatDate = (date?: string) => {
+  if (!date) return undefined;
+  const time = Date.parse(date);
+  // Relative dates ("2 hours ago") come through as-is
+  return Number.isNaN(time) ? date : new Date(time).toLocaleDateString();
+};
+
+const EngineBadges = ({ item }: { item: VerticalResult }) => (
+  <div className="flex flex-wrap gap-1">
+    {item.engines.map((e) => (
+      <Badge key={e.engine} variant="secondary" className="text-[10px]">
+        {e.engine.replace("_", " ")} #{e.rank}
+      </Badge>
+    ))}
+  </div>
+);
+
+// ── Images ─────────────────────────────────────────────────────────
+const ImageResultGrid = ({ items }: { items: VerticalResult[] }) => (
+  <div className="grid grid-cols-2 gap-2 sm:grid-cols-3 md:grid-cols-4">
+    {items.map((item) => (
+      <a
+        key={item.image || item.url}
+        href={item.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="group overflow-hidden rounded-lg border bg-card transition-colors hover:bg-accent/50"
+      >
+        <div className="aspect-square overflow-hidden bg-muted">
+          <img
+            src={item.thumbnail || item.image}
+            alt={item.title}
+            loading="lazy"
+            className="h-full w-full object-cover transition-transform group-hover:scale-105"
+          />
+        </div>
+        <div className="p-2">
+          <p className="truncate text-xs font-medium text-foreground">{item.title}</p>
+          <p className="truncate text-[10px] text-muted-foreground">{item.source || hostname(item.url)}</p>
+        </div>
+      </a>
+    ))}
+  </div>
+);
+
+// ── News ───────────────────────────────────────────────────────────
+const NewsResultCard = ({ item }: { item: VerticalResult }) => (
+  <div className="group flex gap-3 rounded-lg border bg-card p-4 transition-colors hover:bg-accent/50">
+    <div className="min-w-0 flex-1">
+      <div className="mb-1 flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{item.source || hostname(item.url)}</span>
+        {item.date && (
+          <span className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {formatDate(item.date)}
+          </span>
+        )}
+      </div>
+      <a
+        href={item.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="mb-1 inline-flex items-center gap-1 text-base font-medium text-primary hover:underline"
+      >
+        {item.title}
+        <ExternalLink className="h-3 w-3 shrink-0 opacity-0 transition-opacity group-hover:opacity-100" />
+      </a>
+      {item.snippet && <p className="text-sm text-muted-foreground line-clamp-2">{item.snippet}</p>}
+      <div className="mt-2">
+        <EngineBadges item={item} />
+      </div>
+    </div>
+    {item.thumbnail && (
+      <img src={item.thumbnail} alt="" loading="lazy" className="h-20 w-28 shrink-0 rounded-md object-cover" />
+    )}
+  </div>
+);
+
+// ── Videos ─────────────────────────────────────────────────────────
+const VideoResultCard = ({ item }: { item: VerticalResult }) => (
+  <a
+    href={item.url}
+    target="_blank"
+    rel="noopener noreferrer"
+    className="group flex gap-3 rounded-lg border bg-card p-3 transition-colors hover:bg-accent/50"
+  >
+    <div className="relative h-24 w-40 shrink-0 overflow-hidden rounded-md bg-muted">
+      {item.thumbnail ? (
+        <img src={item.thumbnail} alt="" loading="lazy" className="h-full w-full object-cover" />
+      ) : (
+        <Play className="absolute left-1/2 top-1/2 h-6 w-6 -translate-x-1/2 -translate-y-1/2 text-muted-foreground" />
+      )}
+      {item.duration && (
+        <span className="absolute bottom-1 right-1 rounded bg-black/75 px-1 text-[10px] font-medium text-white">
+          {item.duration}
+        </span>
+      )}
+    </div>
+    <div className="min-w-0 flex-1">
+      <p className="line-clamp-2 text-sm font-medium text-primary group-hover:underline">{item.title}</p>
+      <p className="mt-0.5 text-xs text-muted-foreground">
+        {[item.source || hostname(item.url), formatDate(item.date)].filter(Boolean).join(" · ")}
+      </p>
+      {item.snippet && <p className="mt-1 text-xs text-muted-foreground line-clamp-2">{item.snippet}</p>}
+      <div className="mt-1.5">
+        <EngineBadges item={item} />
+      </div>
+    </div>
+  </a>
+);
+
+// ── Scholar ────────────────────────────────────────────────────────
+const ScholarResultCard = ({ item, index }: { item: VerticalResult; index: number }) => (
+  <div className="group rounded-lg border bg-card p-4 transition-colors hover:bg-accent/50">
+    <div className="mb-1 flex items-center gap-2">
+      <span className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-muted text-xs font-medium text-muted-foreground">
+        {index + 1}
+      </span>
+      {item.source && <p className="truncate text-xs text-muted-foreground">{item.source}</p>}
+    </div>
+    <a
+      href={item.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="mb-1 inline-flex items-center gap-1 text-base font-medium text-primary hover:underline"
+    >
+      {item.title}
+      <ExternalLink className="h-3 w-3 shrink-0 opacity-0 transition-opacity group-hover:opacity-100" />
+    </a>
+    {item.snippet && <p className="text-sm text-muted-foreground line-clamp-3">{item.snippet}</p>}
+    <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+      {item.cited_by !== undefined && (
+        <span className="flex items-center gap-1">
+          <Quote className="h-3 w-3" />
+          Cited by {item.cited_by.toLocaleString()}
+        </span>
+      )}
+      {item.pdf && (
+        <a
+          href={item.pdf}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-primary hover:underline"
+        >
+          <FileText className="h-3 w-3" />
+          PDF
+        </a>
+      )}
+    </div>
+  </div>
+);
+
+// ── Shopping ───────────────────────────────────────────────────────
+const ShoppingResultCard = ({ item }: { item: VerticalResult }) => (
+  <a
+    href={item.url}
+    target="_blank"
+    rel="noopener noreferrer"
+    className="group flex gap-3 rounded-lg border bg-card p-3 transition-colors hover:bg-accent/50"
+  >
+    {item.thumbnail && (
+      <img src={item.thumbnail} alt="" loading="lazy" className="h-20 w-20 shrink-0 rounded-md bg-white object-contain" />
+    )}
+    <div className="min-w-0 flex-1">
+      <p className="line-clamp-2 text-sm font-medium text-primary group-hover:underline">{item.title}</p>
+      {item.price && <p className="mt-1 text-base font-semibold text-foreground">{item.price}</p>}
+      <div className="mt-0.5 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span>{item.source || hostname(item.url)}</span>
+        {item.rating !== undefined && (
+          <span className="flex items-center gap-0.5">
+            <Star className="h-3 w-3 fill-amber-400 text-amber-400" />
+            {item.rating}
+            {item.reviews !== undefined && ` (${item.reviews.toLocaleString()})`}
+          </span>
+        )}
+      </div>
+      <div className="mt-1.5">
+        <EngineBadges item={item} />
+      </div>
+    </div>
+  </a>
+);
+
+export default VerticalResults;
@@ -14,6 +14,8 @@ import { useAuth } from "@/contexts/AuthContext";
 interface ResultMeta {
   searchResultId: string;
   url: string;
+  /** Set when the result came from an interleaving experiment */
+  interleaving?: { impressionId: string; url: string };
 }
 
 export function useFeedbackTracker() {
@@ -86,8 +88,22 @@ export function useFeedbackTracker() {
         openedAt: Date.now(),
       });
       upsertFeedback(meta.searchResultId, { click_order: clickOrder });
+
+      // Credit the click to the aggregation method that contributed the
+      // result; the server looks the team up from the result's own URL
+      // (a click on a near-duplicate counts for the result that folded it)
+      if (user && meta.interleaving) {
+        supabase
+          .rpc("record_interleaving_click", {
+            _impression_id: meta.interleaving.impressionId,
+            _url: meta.interleaving.url,
+          })
+          .then(({ error }) => {
+            if (error) console.error("Failed to record interleaving click:", error.message);
+          });
+      }
     },
-    [upsertFeedback],
+    [upsertFeedback, user],
   );
 
   /**
@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+import { fetchSuggestions, type Suggestion } from "@/lib/api/suggestions";
+
+const DEBOUNCE_MS = 150;
+/** Matches the suggest function's minimum prefix */
+const MIN_QUERY_CHARS = 2;
+
+/**
+ * Debounced autocomplete suggestions for the text being typed. A newer
+ * keystroke aborts the request in flight, so results never arrive out of order.
+ */
+export function useSearchSuggestions(query: string, enabled: boolean): Suggestion[] {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!enabled || q.length < MIN_QUERY_CHARS) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const result = await fetchSuggestions(q, controller.signal);
+      if (!controller.signal.aborted) setSuggestions(result);
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, enabled]);
+
+  return suggestions;
+}
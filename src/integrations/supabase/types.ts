@@ -14,12 +14,32 @@ export type Database = {
   }
   public: {
     Tables: {
+      blocked_domains: {
+        Row: {
+          created_at: string
+          domain: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          domain: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          domain?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       feedback_learning_index: {
         Row: {
           embedding: string | null
           id: string
+          ignored_count: number
           learned_score: number
-          query_matches: string[] | null
+          query_normalized: string
+          score_updated_at: string
           snippet: string | null
           title: string | null
           updated_at: string
@@ -29,8 +49,10 @@ export type Database = {
         Insert: {
           embedding?: string | null
           id?: string
+          ignored_count?: number
           learned_score?: number
-          query_matches?: string[] | null
+          query_normalized: string
+          score_updated_at?: string
           snippet?: string | null
           title?: string | null
           updated_at?: string
@@ -40,8 +62,10 @@ export type Database = {
         Update: {
           embedding?: string | null
           id?: string
+          ignored_count?: number
           learned_score?: number
-          query_matches?: string[] | null
+          query_normalized?: string
+          score_updated_at?: string
           snippet?: string | null
           title?: string | null
           updated_at?: string
@@ -50,13 +74,153 @@ export type Database = {
         }
         Relationships: []
       }
+      interleaving_impressions: {
+        Row: {
+          clicked_urls: string[]
+          clicks_a: number
+          clicks_b: number
+          created_at: string
+          id: string
+          method_a: string
+          method_b: string
+          query: string
+          teams: Json
+          user_id: string | null
+        }
+        Insert: {
+          clicked_urls?: string[]
+          clicks_a?: number
+          clicks_b?: number
+          created_at?: string
+          id?: string
+          method_a: string
+          method_b: string
+          query: string
+          teams?: Json
+          user_id?: string | null
+        }
+        Update: {
+          clicked_urls?: string[]
+          clicks_a?: number
+          clicks_b?: number
+          created_at?: string
+          id?: string
+          method_a?: string
+          method_b?: string
+          query?: string
+          teams?: Json
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      learning_centroids: {
+        Row: {
+          centroid: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          centroid: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          centroid?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      ltr_models: {
+        Row: {
+          pairs: number
+          sessions: number
+          updated_at: string
+          user_id: string
+          weights: Json
+        }
+        Insert: {
+          pairs?: number
+          sessions?: number
+          updated_at?: string
+          user_id: string
+          weights?: Json
+        }
+        Update: {
+          pairs?: number
+          sessions?: number
+          updated_at?: string
+          user_id?: string
+          weights?: Json
+        }
+        Relationships: []
+      }
+      pinned_results: {
+        Row: {
+          created_at: string
+          id: string
+          query_normalized: string
+          snippet: string
+          title: string
+          url: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          query_normalized: string
+          snippet?: string
+          title?: string
+          url: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          query_normalized?: string
+          snippet?: string
+          title?: string
+          url?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      popular_queries: {
+        Row: {
+          query: string
+          refreshed_at: string
+          users: number
+        }
+        Insert: {
+          query: string
+          refreshed_at?: string
+          users: number
+        }
+        Update: {
+          query?: string
+          refreshed_at?: string
+          users?: number
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
+          auto_correct_spelling: boolean
           created_at: string
+          custom_bangs: Json
           default_aggregation_method: string
           display_name: string | null
+          diversify: boolean
+          domain_cap: number
+          domain_rules: Json
           id: string
+          learning_half_life_days: number
+          local_kemenization: boolean
+          mmr_lambda: number
+          preferred_engines: string[]
           reading_speed: number
+          rrf_k: number
+          share_learning: boolean
           updated_at: string
           weight_b: number
           weight_c: number
@@ -67,11 +231,22 @@ export type Database = {
           weight_v: number
         }
         Insert: {
+          auto_correct_spelling?: boolean
           created_at?: string
+          custom_bangs?: Json
           default_aggregation_method?: string
           display_name?: string | null
+          diversify?: boolean
+          domain_cap?: number
+          domain_rules?: Json
           id: string
+          learning_half_life_days?: number
+          local_kemenization?: boolean
+          mmr_lambda?: number
+          preferred_engines?: string[]
           reading_speed?: number
+          rrf_k?: number
+          share_learning?: boolean
           updated_at?: string
           weight_b?: number
           weight_c?: number
@@ -82,11 +257,22 @@ export type Database = {
           weight_v?: number
         }
         Update: {
+          auto_correct_spelling?: boolean
           created_at?: string
+          custom_bangs?: Json
           default_aggregation_method?: string
           display_name?: string | null
+          diversify?: boolean
+          domain_cap?: number
+          domain_rules?: Json
           id?: string
+          learning_half_life_days?: number
+          local_kemenization?: boolean
+          mmr_lambda?: number
+          preferred_engines?: string[]
           reading_speed?: number
+          rrf_k?: number
+          share_learning?: boolean
           updated_at?: string
           weight_b?: number
           weight_c?: number
@@ -98,6 +284,36 @@ export type Database = {
         }
         Relationships: []
       }
+      result_judgments: {
+        Row: {
+          applied_at: string | null
+          created_at: string
+          id: string
+          judgment: string
+          query_normalized: string
+          url: string
+          user_id: string
+        }
+        Insert: {
+          applied_at?: string | null
+          created_at?: string
+          id?: string
+          judgment: string
+          query_normalized: string
+          url: string
+          user_id: string
+        }
+        Update: {
+          applied_at?: string | null
+          created_at?: string
+          id?: string
+          judgment?: string
+          query_normalized?: string
+          url?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       search_cache: {
         Row: {
           engine: string
@@ -182,6 +398,7 @@ export type Database = {
           original_rank: number
           search_history_id: string
           snippet: string | null
+          source_score: number | null
           title: string
           url: string
         }
@@ -193,6 +410,7 @@ export type Database = {
           original_rank: number
           search_history_id: string
           snippet?: string | null
+          source_score?: number | null
           title: string
           url: string
         }
@@ -204,6 +422,7 @@ export type Database = {
           original_rank?: number
           search_history_id?: string
           snippet?: string | null
+          source_score?: number | null
           title?: string
           url?: string
         }
@@ -293,6 +512,20 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      decay_learned_scores: {
+        Args: {
+          _user_id?: string
+        }
+        Returns: number
+      }
+      decayed_learned_score: {
+        Args: {
+          _as_of: string
+          _half_life_days: number
+          _score: number
+        }
+        Returns: number
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -300,8 +533,29 @@ export type Database = {
         }
         Returns: boolean
       }
+      match_community_documents: {
+        Args: {
+          match_count?: number
+          match_query_normalized: string
+          match_threshold?: number
+          match_user_id: string
+          min_interest_similarity?: number
+          min_score?: number
+          min_users?: number
+          neighbour_count?: number
+          query_embedding?: string
+        }
+        Returns: {
+          community_score: number
+          contributors: number
+          snippet: string
+          title: string
+          url: string
+        }[]
+      }
       match_learned_documents: {
         Args: {
+          exclude_query_normalized?: string
           match_count?: number
           match_threshold?: number
           match_user_id: string
@@ -316,6 +570,46 @@ export type Database = {
           url: string
         }[]
       }
+      match_learned_query: {
+        Args: {
+          match_count?: number
+          match_query_normalized: string
+          match_user_id: string
+          min_score?: number
+        }
+        Returns: {
+          id: string
+          learned_score: number
+          snippet: string
+          title: string
+          url: string
+        }[]
+      }
+      record_interleaving_click: {
+        Args: {
+          _impression_id: string
+          _url: string
+        }
+        Returns: undefined
+      }
+      refresh_learning_centroids: {
+        Args: {
+          _user_id?: string
+        }
+        Returns: number
+      }
+      refresh_popular_queries: {
+        Args: {
+          _min_users?: number
+        }
+        Returns: number
+      }
+      suggestion_query: {
+        Args: {
+          _query: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "admin" | "user"
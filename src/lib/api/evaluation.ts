@@ -0,0 +1,39 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface MethodEvaluation {
+  /** Aggregation method, or "logged" for the order the user was shown */
+  method: string;
+  ndcg: number;
+  mrr: number;
+  precision: number;
+  sessions: number;
+}
+
+export interface EvaluationReport {
+  sessions_evaluated: number;
+  k: number;
+  methods: MethodEvaluation[];
+}
+
+/**
+ * Triggers the evaluate-aggregation edge function, which replays the
+ * user's logged search sessions through every aggregation method and
+ * scores each with NDCG@k, MRR and P@k against feedback-derived relevance.
+ */
+export async function evaluateAggregation(
+  options: { sessions?: number; k?: number; localKemenization?: boolean } = {}
+): Promise<EvaluationReport> {
+  const { error, data } = await supabase.functions.invoke("evaluate-aggregation", {
+    body: { sessions: options.sessions, k: options.k, local_kemenization: options.localKemenization },
+  });
+
+  if (error) {
+    console.error("Failed to evaluate aggregation methods:", error.message);
+    throw error;
+  }
+  if (data?.error) {
+    throw new Error(data.error);
+  }
+
+  return data as EvaluationReport;
+}
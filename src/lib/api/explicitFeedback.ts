@@ -0,0 +1,102 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type Judgment = "relevant" | "not_relevant";
+
+/**
+ * The query key judgments and pins are stored under; matches
+ * normalizeQuery() in the multi-search and update-learning-index functions.
+ */
+export const normalizeQuery = (query: string) => query.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * The domain blocking a result would block: its host without the
+ * www. / m. / mobile. / amp. prefixes canonicalUrl() drops
+ * (supabase/functions/_shared/url.ts), so the block covers those variants.
+ */
+export function domainOf(url: string): string | null {
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    const stripped = host.replace(/^(?:www\d*|m|mobile|amp)\./, "");
+    return stripped.includes(".") ? stripped : host;
+  } catch {
+    return null;
+  }
+}
+
+/** Whether a result's host is the domain or one of its subdomains */
+export const isOnDomain = (url: string, domain: string) => {
+  const host = domainOf(url);
+  return !!host && (host === domain || host.endsWith(`.${domain}`));
+};
+
+async function currentUserId(): Promise<string> {
+  const { data } = await supabase.auth.getUser();
+  if (!data.user) throw new Error("Sign in to give feedback on results");
+  return data.user.id;
+}
+
+/**
+ * Records a thumbs up / down on a result for a query, or clears it
+ * (null). update-learning-index applies it when the session ends; a
+ * recorded judgment is marked unapplied so a change takes effect.
+ */
+export async function judgeResult(query: string, url: string, judgment: Judgment | null): Promise<void> {
+  const userId = await currentUserId();
+  const queryNormalized = normalizeQuery(query);
+  const { error } = judgment
+    ? await supabase
+        .from("result_judgments")
+        .upsert(
+          { user_id: userId, query_normalized: queryNormalized, url, judgment, applied_at: null },
+          { onConflict: "user_id,query_normalized,url" }
+        )
+    : await supabase
+        .from("result_judgments")
+        .delete()
+        .eq("user_id", userId)
+        .eq("query_normalized", queryNormalized)
+        .eq("url", url);
+  if (error) throw error;
+}
+
+/** Pins a result to the top of the results for a query */
+export async function pinResult(query: string, result: { url: string; title: string; snippet: string }): Promise<void> {
+  const userId = await currentUserId();
+  const { error } = await supabase.from("pinned_results").upsert(
+    {
+      user_id: userId,
+      query_normalized: normalizeQuery(query),
+      url: result.url,
+      title: result.title,
+      snippet: result.snippet,
+    },
+    { onConflict: "user_id,query_normalized,url" }
+  );
+  if (error) throw error;
+}
+
+export async function unpinResult(query: string, url: string): Promise<void> {
+  const userId = await currentUserId();
+  const { error } = await supabase
+    .from("pinned_results")
+    .delete()
+    .eq("user_id", userId)
+    .eq("query_normalized", normalizeQuery(query))
+    .eq("url", url);
+  if (error) throw error;
+}
+
+/** Hides a domain and its subdomains from all of the user's searches */
+export async function blockDomain(domain: string): Promise<void> {
+  const userId = await currentUserId();
+  const { error } = await supabase
+    .from("blocked_domains")
+    .upsert({ user_id: userId, domain }, { onConflict: "user_id,domain" });
+  if (error) throw error;
+}
+
+export async function unblockDomain(domain: string): Promise<void> {
+  const userId = await currentUserId();
+  const { error } = await supabase.from("blocked_domains").delete().eq("user_id", userId).eq("domain", domain);
+  if (error) throw error;
+}
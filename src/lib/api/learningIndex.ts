@@ -49,3 +49,27 @@ export async function computeSQM(searchHistoryId: string): Promise<void> {
     throw e;
   }
 }
+
+/**
+ * Triggers the train-ltr edge function to refit the user's pairwise
+ * learning-to-rank model from their logged sessions and feedback. The
+ * function skips the refit when nothing changed since the last one, or
+ * when it ran within the last hour unless `force` is set.
+ */
+export async function trainLtrModel(force = false): Promise<void> {
+  try {
+    const { error, data } = await supabase.functions.invoke("train-ltr", { body: { force } });
+
+    if (error) {
+      console.error("Failed to train LTR model:", error.message);
+      throw error;
+    }
+
+    if (data?.error) {
+      throw new Error(data.error);
+    }
+  } catch (e) {
+    console.error("LTR training error:", e);
+    throw e;
+  }
+}
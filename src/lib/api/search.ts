@@ -3,13 +3,84 @@ import { supabase } from "@/integrations/supabase/client";
 export interface EngineRank {
   engine: string;
   rank: number;
+  /** The engine's own relevance score, where it reports one */
+  score?: number;
 }
 
+/** Short display names for the aggregation_method values */
+export const METHOD_LABELS: Record<string, string> = {
+  borda: "Borda",
+  shimura: "Shimura",
+  modal: "Modal Value",
+  mfo: "MFO",
+  mbv: "MBV",
+  owa: "OWA-Shimura",
+  biased: "Biased",
+  rrf: "RRF",
+  combsum: "CombSUM",
+  combmnz: "CombMNZ",
+  mc1: "MC1",
+  mc2: "MC2",
+  mc3: "MC3",
+  mc4: "MC4",
+  ltr: "LTR",
+};
+
 export interface MergedResult {
   url: string;
   title: string;
   snippet: string;
+  /** Publication date, when an engine reported one */
+  date?: string;
   engines: EngineRank[];
+  /** Why the aggregator placed the result where it did */
+  explanation?: RankExplanation;
+  /** In an interleaving experiment: which of the two methods contributed it */
+  team?: "a" | "b";
+  /** Near-duplicates (mirrors, syndicated copies) folded into this result */
+  duplicates?: { url: string; title: string }[];
+  /** Pinned by the user for this query (placed first) */
+  pinned?: boolean;
+  /** The user's thumbs up / down on the result for this query */
+  judgment?: "relevant" | "not_relevant";
+}
+
+export interface EngineContribution {
+  engine: string;
+  /** null when the engine didn't return the result */
+  rank: number | null;
+  value: number;
+  weight?: number;
+  note?: string;
+}
+
+export interface RankExplanation {
+  method: string;
+  score: number;
+  score_label: string;
+  lower_is_better?: boolean;
+  contributions: EngineContribution[];
+  adjustments: { label: string; value: number }[];
+  tiebreak?: string;
+}
+
+export type Vertical = "web" | "images" | "news" | "videos" | "scholar" | "shopping";
+
+/** A result from a non-web vertical; which extra fields are set depends on the vertical */
+export interface VerticalResult extends MergedResult {
+  thumbnail?: string;
+  /** Full-size image (images) */
+  image?: string;
+  /** Publisher, channel or merchant */
+  source?: string;
+  duration?: string;
+  cited_by?: number;
+  pdf?: string;
+  /** Price as displayed by the merchant */
+  price?: string;
+  extracted_price?: number;
+  rating?: number;
+  reviews?: number;
 }
 
 export interface EngineSummary {
@@ -17,6 +88,23 @@ export interface EngineSummary {
   count: number;
   error?: string;
   cached?: boolean;
+  /** Engine missed its per-engine or overall search deadline */
+  timed_out?: boolean;
+}
+
+/** A "People also ask" entry */
+export interface RelatedQuestion {
+  question: string;
+  answer?: string;
+  /** Page the answer comes from */
+  title?: string;
+  link?: string;
+}
+
+/** A related search or "People also search for" entity */
+export interface RelatedQuery {
+  query: string;
+  image?: string;
 }
 
 export interface RichBlocks {
@@ -25,26 +113,129 @@ export interface RichBlocks {
   images?: any[];
   knowledge_graph?: any;
   answer_box?: any;
+  /** Merged across engines, most-suggested first */
+  related_searches?: RelatedQuery[];
+  related_questions?: RelatedQuestion[];
+  people_also_search_for?: RelatedQuery[];
+}
+
+/** multi-search's reconciliation of the engines' spelling corrections */
+export interface DidYouMean {
+  query: string;
+  /** Engines that reported this correction */
+  engines: string[];
+  /** Engines whose results already are for the correction */
+  auto_corrected: string[];
+  /** Every engine that answered reported this correction, so it is safe to re-run with it */
+  unanimous: boolean;
+}
+
+/** Results a blocked domain hid from this search (they never reach the ranking) */
+export interface BlockedSummary {
+  domain: string;
+  results: number;
 }
 
 export interface SearchResponse {
   success: boolean;
+  session_id?: string | null;
   query?: string;
   aggregation_method?: string;
   query_intent?: string;
+  /** Bangs (e.g. "g" for !g) that overrode engine routing for this query */
+  bangs?: string[];
+  /** Non-fatal notices, e.g. unknown bangs */
+  warnings?: string[];
+  /** Spelling correction of the query, if any engine made one */
+  did_you_mean?: DidYouMean | null;
+  /** 1-based result page this response aggregates up to */
+  page?: number;
+  /** Whether a deeper page is likely to add results */
+  has_more?: boolean;
+  /** Set when `merged` team-draft interleaves two aggregation methods */
+  interleaving?: { impression_id: string; methods: [string, string] } | null;
   merged?: MergedResult[];
+  /** Set instead of `merged` for non-web verticals */
+  vertical?: Vertical;
+  items?: VerticalResult[];
+  /** The user's blocked domains that hid results, with how many each */
+  blocked?: BlockedSummary[];
   engineResults?: EngineSummary[];
   richBlocks?: RichBlocks;
   error?: string;
 }
 
+export interface SearchOptions {
+  /**
+   * Pre-generated search_sessions id, so the caller can subscribe before
+   * the search starts. A deeper page passes its search's id to extend
+   * that session instead of starting another.
+   */
+  sessionId?: string;
+  /**
+   * 1-based result page. Page N re-aggregates every engine's results up to
+   * that depth, so `merged` is a superset-in-spirit of the shallower pages.
+   */
+  page?: number;
+  /** Search a vertical (images, news, …) instead of the web; verticals don't stream */
+  vertical?: Vertical;
+  /** k for Reciprocal Rank Fusion; only used with the "rrf" method */
+  rrfK?: number;
+  /** Refine the aggregated order with a local-Kemenization pass */
+  localKemenization?: boolean;
+  /** Re-order for novelty (MMR) and cap results per domain; null/absent = off */
+  diversify?: DiversifyOptions | null;
+}
+
+export interface DiversifyOptions {
+  /** 1 keeps the method's order, 0 only maximizes novelty */
+  lambda: number;
+  /** Max results per domain before the rest are demoted; 0 = no cap */
+  domainCap: number;
+}
+
+/** Per-engine entry of search_sessions.engine_results */
+export interface SessionEngineEntry {
+  count: number;
+  error?: string;
+  cached?: boolean;
+  timed_out?: boolean;
+}
+
+/** Shape of a search_sessions row as delivered by Realtime */
+export interface SearchSession {
+  id: string;
+  status: "running" | "complete" | "failed";
+  all_engines: string[];
+  completed_engines: string[];
+  timed_out_engines: string[];
+  failed_engines: string[];
+  engine_results: Record<string, SessionEngineEntry>;
+  merged_results: MergedResult[];
+  rich_blocks: RichBlocks;
+  error_message: string | null;
+}
+
 export async function multiSearch(
   query: string,
   aggregationMethod: string = "borda",
-  preferredEngines: string[] = []
+  preferredEngines: string[] = [],
+  options: SearchOptions = {}
 ): Promise<SearchResponse> {
   const { data, error } = await supabase.functions.invoke("multi-search", {
-    body: { query, aggregation_method: aggregationMethod, preferred_engines: preferredEngines },
+    body: {
+      query,
+      aggregation_method: aggregationMethod,
+      preferred_engines: preferredEngines,
+      session_id: options.sessionId,
+      page: options.page,
+      vertical: options.vertical,
+      rrf_k: options.rrfK,
+      local_kemenization: options.localKemenization,
+      diversify: !!options.diversify,
+      mmr_lambda: options.diversify?.lambda,
+      domain_cap: options.diversify?.domainCap,
+    },
   });
 
   if (error) {
@@ -53,3 +244,56 @@ export async function multiSearch(
 
   return data as SearchResponse;
 }
+
+/**
+ * The bangs multi-search knows without any custom_bangs, as bang name →
+ * source ids; empty when the function can't be reached.
+ */
+export async function fetchBuiltinBangs(): Promise<Record<string, string[]>> {
+  const { data, error } = await supabase.functions.invoke("multi-search", { body: { list_bangs: true } });
+  if (error || !data?.success) return {};
+  return data.builtin_bangs as Record<string, string[]>;
+}
+
+/**
+ * Subscribes to Realtime updates of one search_sessions row. Resolves once
+ * the channel has joined (or after a short grace period, so a slow Realtime
+ * connection never blocks the search itself) with an unsubscribe function.
+ */
+export function subscribeToSearchSession(
+  sessionId: string,
+  onUpdate: (session: SearchSession) => void
+): Promise<() => void> {
+  const channel = supabase
+    .channel(`search-session-${sessionId}`)
+    .on(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "search_sessions", filter: `id=eq.${sessionId}` },
+      (payload) => onUpdate(payload.new as SearchSession)
+    );
+
+  const unsubscribe = () => {
+    supabase.removeChannel(channel);
+  };
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(unsubscribe), 1500);
+    channel.subscribe((status) => {
+      if (status === "SUBSCRIBED" || status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+        clearTimeout(timer);
+        resolve(unsubscribe);
+      }
+    });
+  });
+}
+
+/** Builds the EngineStatusBar summary from a (possibly partial) session row */
+export function engineSummaryFromSession(session: SearchSession): EngineSummary[] {
+  return Object.entries(session.engine_results || {}).map(([engine, entry]) => ({
+    engine,
+    count: entry.count,
+    error: entry.error,
+    cached: entry.cached,
+    timed_out: entry.timed_out,
+  }));
+}
@@ -0,0 +1,32 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type SuggestionSource = "history" | "popular" | "learned";
+
+export interface Suggestion {
+  text: string;
+  /** Where it came from: your history, other users' searches, or pages you engaged with */
+  sources: SuggestionSource[];
+}
+
+/**
+ * Calls the suggest edge function for autocomplete on a partial query.
+ * Suggestions are best-effort: failures are logged and yield none.
+ */
+export async function fetchSuggestions(query: string, signal?: AbortSignal): Promise<Suggestion[]> {
+  try {
+    const { error, data } = await supabase.functions.invoke("suggest", {
+      body: { q: query },
+      signal,
+    });
+
+    if (error) {
+      if (!signal?.aborted) console.error("Failed to fetch suggestions:", error.message);
+      return [];
+    }
+
+    return (data?.suggestions as Suggestion[] | undefined) ?? [];
+  } catch (e) {
+    if (!signal?.aborted) console.error("Suggestion fetch error:", e);
+    return [];
+  }
+}
@@ -6,10 +6,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { BarChart3, History, BookmarkIcon, Search, TrendingUp, Users, ExternalLink } from "lucide-react";
+import { BarChart3, History, BookmarkIcon, Search, TrendingUp, Users, ExternalLink, FlaskConical } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, Legend } from "recharts";
 import { useNavigate } from "react-router-dom";
-import { updateLearningIndex, computeSQM } from "@/lib/api/learningIndex";
+import { updateLearningIndex, computeSQM, trainLtrModel } from "@/lib/api/learningIndex";
+import { evaluateAggregation, type EvaluationReport } from "@/lib/api/evaluation";
+import { METHOD_LABELS } from "@/lib/api/search";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 
 interface SearchHistoryItem {
@@ -30,10 +34,22 @@ interface LearnedDoc {
   url: string;
   title: string | null;
   snippet: string | null;
+  /** The query this score is for */
+  query_normalized: string;
   learned_score: number;
   updated_at: string;
 }
 
+interface InterleavingTally {
+  method_a: string;
+  method_b: string;
+  /** Impressions with at least one credited click */
+  impressions: number;
+  wins_a: number;
+  wins_b: number;
+  ties: number;
+}
+
 interface SavedDoc {
   id: string;
   url: string;
@@ -42,6 +58,41 @@ interface SavedDoc {
   bookmarked: boolean | null;
 }
 
+const methodLabel = (method: string) => METHOD_LABELS[method] || method;
+
+const InterleavingTable = ({ rows }: { rows: (InterleavingTally & { user_id?: string })[] }) => (
+  <div className="border rounded-lg overflow-hidden">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="bg-muted/50">
+          {rows.some((r) => r.user_id) && <th className="text-left p-3 font-medium text-muted-foreground">User</th>}
+          <th className="text-left p-3 font-medium text-muted-foreground">A vs B</th>
+          <th className="text-right p-3 font-medium text-muted-foreground">Wins A</th>
+          <th className="text-right p-3 font-medium text-muted-foreground">Wins B</th>
+          <th className="text-right p-3 font-medium text-muted-foreground">Ties</th>
+          <th className="text-right p-3 font-medium text-muted-foreground">Δ (A − B)</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={`${row.user_id ?? ""}|${row.method_a}|${row.method_b}`} className="border-t">
+            {row.user_id && <td className="p-3 font-mono text-xs text-muted-foreground">{row.user_id.slice(0, 8)}</td>}
+            <td className="p-3 font-medium text-foreground">
+              {methodLabel(row.method_a)} vs {methodLabel(row.method_b)}
+            </td>
+            <td className="p-3 text-right text-foreground">{row.wins_a}</td>
+            <td className="p-3 text-right text-foreground">{row.wins_b}</td>
+            <td className="p-3 text-right text-foreground">{row.ties}</td>
+            <td className="p-3 text-right font-mono text-foreground">
+              {((row.wins_a - row.wins_b) / row.impressions).toFixed(3)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
 const AnalyticsPage = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -52,12 +103,17 @@ const AnalyticsPage = () => {
   const [savedDocs, setSavedDocs] = useState<SavedDoc[]>([]);
   const [loading, setLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [evaluation, setEvaluation] = useState<EvaluationReport | null>(null);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [evaluateKemenized, setEvaluateKemenized] = useState(false);
   const { toast } = useToast();
 
   // Admin state
   const [adminSqm, setAdminSqm] = useState<{ engine: string; avg_score: number; total_queries: number; user_count: number }[]>([]);
   const [adminUserCount, setAdminUserCount] = useState(0);
   const [adminSearchCount, setAdminSearchCount] = useState(0);
+  const [adminInterleaving, setAdminInterleaving] = useState<InterleavingTally[]>([]);
+  const [adminInterleavingByUser, setAdminInterleavingByUser] = useState<(InterleavingTally & { user_id: string })[]>([]);
 
   useEffect(() => {
     if (!user) return;
@@ -90,7 +146,7 @@ const AnalyticsPage = () => {
           .eq("user_id", user.id),
         supabase
           .from("feedback_learning_index")
-          .select("id, url, title, snippet, learned_score, updated_at")
+          .select("id, url, title, snippet, query_normalized, learned_score, updated_at")
           .eq("user_id", user.id)
           .order("learned_score", { ascending: false })
           .limit(50),
@@ -137,7 +193,7 @@ const AnalyticsPage = () => {
 
       // Fetch admin data if admin
       if (userIsAdmin) {
-        const [adminSqmRes, adminProfilesRes, adminHistoryRes] = await Promise.all([
+        const [adminSqmRes, adminProfilesRes, adminHistoryRes, adminInterleavingRes] = await Promise.all([
           supabase
             .from("search_quality_measures")
             .select("engine, sqm_score, query_count, user_id"),
@@ -147,6 +203,10 @@ const AnalyticsPage = () => {
           supabase
             .from("search_history")
             .select("id"),
+          supabase
+            .from("interleaving_impressions")
+            .select("user_id, method_a, method_b, clicks_a, clicks_b")
+            .or("clicks_a.gt.0,clicks_b.gt.0"),
         ]);
 
         setAdminUserCount(adminProfilesRes.data?.length || 0);
@@ -172,6 +232,32 @@ const AnalyticsPage = () => {
             }))
           );
         }
+
+        // Tally interleaving outcomes per method pair, globally and per user.
+        // An impression is won by the method whose results got more clicks.
+        if (adminInterleavingRes.data) {
+          const global = new Map<string, InterleavingTally>();
+          const byUser = new Map<string, InterleavingTally & { user_id: string }>();
+          const tally = (t: InterleavingTally, clicksA: number, clicksB: number) => {
+            t.impressions += 1;
+            if (clicksA > clicksB) t.wins_a += 1;
+            else if (clicksB > clicksA) t.wins_b += 1;
+            else t.ties += 1;
+          };
+          for (const row of adminInterleavingRes.data) {
+            const pair = `${row.method_a}|${row.method_b}`;
+            const empty = { method_a: row.method_a, method_b: row.method_b, impressions: 0, wins_a: 0, wins_b: 0, ties: 0 };
+            if (!global.has(pair)) global.set(pair, { ...empty });
+            tally(global.get(pair)!, row.clicks_a, row.clicks_b);
+            if (row.user_id) {
+              const key = `${row.user_id}|${pair}`;
+              if (!byUser.has(key)) byUser.set(key, { ...empty, user_id: row.user_id });
+              tally(byUser.get(key)!, row.clicks_a, row.clicks_b);
+            }
+          }
+          setAdminInterleaving(Array.from(global.values()));
+          setAdminInterleavingByUser(Array.from(byUser.values()).sort((a, b) => b.impressions - a.impressions));
+        }
       }
 
       setLoading(false);
@@ -201,7 +287,8 @@ const AnalyticsPage = () => {
       
       await Promise.all([
         updateLearningIndex(latestId),
-        computeSQM(latestId)
+        computeSQM(latestId),
+        trainLtrModel(true)
       ]);
       
       toast({ 
@@ -222,6 +309,21 @@ const AnalyticsPage = () => {
     }
   };
 
+  const handleEvaluate = async () => {
+    setIsEvaluating(true);
+    try {
+      setEvaluation(await evaluateAggregation({ localKemenization: evaluateKemenized }));
+    } catch (e: unknown) {
+      toast({
+        title: "Evaluation Error",
+        description: e instanceof Error ? e.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background">
@@ -263,6 +365,7 @@ const AnalyticsPage = () => {
             <TabsTrigger value="history">Search History</TabsTrigger>
             <TabsTrigger value="library">Saved & Bookmarked</TabsTrigger>
             <TabsTrigger value="learning">Learning Index</TabsTrigger>
+            <TabsTrigger value="evaluation">Evaluation</TabsTrigger>
             {isAdmin && <TabsTrigger value="admin">Admin</TabsTrigger>}
           </TabsList>
 
@@ -444,7 +547,7 @@ const AnalyticsPage = () => {
                   Feedback Learning Index
                 </CardTitle>
                 <CardDescription>
-                  Your personalized document index — acts as the (N+1)-th search source
+                  Your personalized relevance matrix (document scores per query) — acts as the (N+1)-th search source
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -464,6 +567,7 @@ const AnalyticsPage = () => {
                             {doc.title || doc.url}
                             <ExternalLink className="h-3 w-3 shrink-0" />
                           </a>
+                          <p className="text-xs text-muted-foreground mt-0.5">for &ldquo;{doc.query_normalized}&rdquo;</p>
                           {doc.snippet && (
                             <p className="text-xs text-muted-foreground line-clamp-1 mt-0.5">{doc.snippet}</p>
                           )}
@@ -484,6 +588,69 @@ const AnalyticsPage = () => {
             </Card>
           </TabsContent>
 
+          {/* ── Evaluation Tab ── */}
+          <TabsContent value="evaluation" className="mt-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FlaskConical className="h-5 w-5" />
+                  Aggregation Method Comparison
+                </CardTitle>
+                <CardDescription>
+                  Replays your recent searches through every aggregation method and scores each against your feedback
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <div className="flex items-center gap-2">
+                    <Switch id="evaluate-kemenized" checked={evaluateKemenized} onCheckedChange={setEvaluateKemenized} />
+                    <Label htmlFor="evaluate-kemenized">With local Kemenization</Label>
+                  </div>
+                  <Button onClick={handleEvaluate} disabled={isEvaluating}>
+                    {isEvaluating ? "Evaluating..." : "Run Evaluation"}
+                  </Button>
+                </div>
+
+                {evaluation && (evaluation.methods.length === 0 ? (
+                  <p className="text-muted-foreground py-8 text-center">
+                    No searches with feedback to evaluate yet. Interact with some results first.
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-xs text-muted-foreground">
+                      {evaluation.sessions_evaluated} session(s) with feedback · "Logged" is the order you were shown
+                    </p>
+                    <div className="border rounded-lg overflow-hidden">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="bg-muted/50">
+                            <th className="text-left p-3 font-medium text-muted-foreground">Method</th>
+                            <th className="text-right p-3 font-medium text-muted-foreground">NDCG@{evaluation.k}</th>
+                            <th className="text-right p-3 font-medium text-muted-foreground">MRR</th>
+                            <th className="text-right p-3 font-medium text-muted-foreground">P@{evaluation.k}</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {evaluation.methods.map((row, i) => (
+                            <tr key={row.method} className="border-t">
+                              <td className="p-3 font-medium text-foreground">
+                                {row.method === "logged" ? "Logged" : METHOD_LABELS[row.method] || row.method}
+                                {i === 0 && <Badge variant="secondary" className="ml-2 text-[10px]">Best</Badge>}
+                              </td>
+                              <td className="p-3 text-right font-mono text-foreground">{row.ndcg.toFixed(3)}</td>
+                              <td className="p-3 text-right font-mono text-foreground">{row.mrr.toFixed(3)}</td>
+                              <td className="p-3 text-right font-mono text-foreground">{row.precision.toFixed(3)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </>
+                ))}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/* ── Admin Tab ── */}
           {isAdmin && (
             <TabsContent value="admin" className="space-y-6 mt-4">
@@ -573,6 +740,33 @@ const AnalyticsPage = () => {
                   )}
                 </CardContent>
               </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FlaskConical className="h-5 w-5" />
+                    Interleaving Experiments
+                  </CardTitle>
+                  <CardDescription>
+                    Team-draft interleaving on live searches: each impression is won by the method whose results got more clicks
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {adminInterleaving.length === 0 ? (
+                    <p className="text-muted-foreground py-8 text-center">
+                      No clicked interleaved searches yet. Set INTERLEAVING_METHODS on multi-search to start an experiment.
+                    </p>
+                  ) : (
+                    <>
+                      <InterleavingTable rows={adminInterleaving} />
+                      <div>
+                        <p className="mb-2 text-sm font-medium text-foreground">Per user</p>
+                        <InterleavingTable rows={adminInterleavingByUser} />
+                      </div>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
             </TabsContent>
           )}
         </Tabs>
@@ -1,26 +1,61 @@
 import { useState, useRef, useEffect, useCallback } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Search, Loader2, LogIn } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import AppHeader from "@/components/AppHeader";
 import AnimatedBackground from "@/components/AnimatedBackground";
 import SearchResultCard from "@/components/SearchResultCard";
 import EngineStatusBar from "@/components/EngineStatusBar";
 import RichWidgets from "@/components/RichWidgets";
-import { multiSearch, type MergedResult, type EngineSummary, type RichBlocks } from "@/lib/api/search";
-import { updateLearningIndex, computeSQM } from "@/lib/api/learningIndex";
+import VerticalResults from "@/components/VerticalResults";
+import SearchAutocomplete from "@/components/SearchAutocomplete";
+import SpellingNotice from "@/components/SpellingNotice";
+import BlockedNotice from "@/components/BlockedNotice";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  multiSearch,
+  subscribeToSearchSession,
+  engineSummaryFromSession,
+  type MergedResult,
+  type EngineSummary,
+  type RichBlocks,
+  type Vertical,
+  type VerticalResult,
+  type DiversifyOptions,
+  type DidYouMean,
+  type BlockedSummary,
+} from "@/lib/api/search";
+import { updateLearningIndex, computeSQM, trainLtrModel } from "@/lib/api/learningIndex";
+import { isOnDomain, unblockDomain } from "@/lib/api/explicitFeedback";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { useFeedbackTracker } from "@/hooks/useFeedbackTracker";
 import { ExtensionPrompt } from "@/components/ExtensionPrompt";
 
+const VERTICAL_TABS: { value: Vertical; label: string }[] = [
+  { value: "web", label: "All" },
+  { value: "images", label: "Images" },
+  { value: "news", label: "News" },
+  { value: "videos", label: "Videos" },
+  { value: "scholar", label: "Scholar" },
+  { value: "shopping", label: "Shopping" },
+];
+
 export interface ResultWithId extends MergedResult {
   /** Maps engine name → search_results row id */
   resultIds: Record<string, string>;
 }
 
+/** How a web search treats spelling corrections */
+interface SpellingRun {
+  /** This search is the automatic correction of that query */
+  correctedFrom?: string;
+  /** Search exactly as typed, never re-run with a correction */
+  exact?: boolean;
+}
+
 const Index = () => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -34,10 +69,29 @@ const Index = () => {
   const [searchedQuery, setSearchedQuery] = useState("");
   const [queryTime, setQueryTime] = useState<number | undefined>();
   const [aggregationMethod, setAggregationMethod] = useState("borda");
+  const [rrfK, setRrfK] = useState<number | undefined>();
+  const [localKemenization, setLocalKemenization] = useState(false);
+  const [diversify, setDiversify] = useState<DiversifyOptions | null>(null);
+  const [autoCorrect, setAutoCorrect] = useState(false);
+  const [didYouMean, setDidYouMean] = useState<DidYouMean | null>(null);
+  const [blocked, setBlocked] = useState<BlockedSummary[]>([]);
+  const [correctedFrom, setCorrectedFrom] = useState<string | undefined>();
+  const [interleavingId, setInterleavingId] = useState<string | undefined>();
   const [usedMethod, setUsedMethod] = useState<string | undefined>();
   const [queryIntent, setQueryIntent] = useState<string | undefined>();
+  const [pendingEngines, setPendingEngines] = useState<string[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const [vertical, setVertical] = useState<Vertical>("web");
+  const [verticalItems, setVerticalItems] = useState<VerticalResult[]>([]);
   const startTimeRef = useRef<number>(0);
   const prevHistoryIdRef = useRef<string | null>(null);
+  /** Session currently being streamed; late Realtime updates for older sessions are ignored */
+  const activeSessionRef = useRef<string | null>(null);
+  /** Session of the search on screen; load more extends it rather than starting another */
+  const searchSessionRef = useRef<string | null>(null);
 
   const feedback = useFeedbackTracker();
 
@@ -46,13 +100,17 @@ const Index = () => {
     if (!user) return;
     supabase
       .from("profiles")
-      .select("default_aggregation_method")
+      .select("default_aggregation_method, rrf_k, local_kemenization, diversify, mmr_lambda, domain_cap, auto_correct_spelling")
       .eq("id", user.id)
       .single()
       .then(({ data }) => {
         if (data?.default_aggregation_method) {
           setAggregationMethod(data.default_aggregation_method);
         }
+        if (data?.rrf_k) setRrfK(data.rrf_k);
+        setLocalKemenization(!!data?.local_kemenization);
+        setDiversify(data?.diversify ? { lambda: data.mmr_lambda, domainCap: data.domain_cap } : null);
+        setAutoCorrect(data?.auto_correct_spelling ?? false);
       });
   }, [user]);
 
@@ -73,18 +131,172 @@ const Index = () => {
     }
   }, [location.state]);
 
+  /**
+   * Writes search_results rows for `items` (aggregated ranks continue after
+   * `rankOffset`) and returns url → engine → row id. Empty on failure.
+   */
+  const saveResults = useCallback(async (historyId: string, items: MergedResult[], rankOffset: number) => {
+    const idMap = new Map<string, Record<string, string>>();
+    const resultRows: {
+      search_history_id: string;
+      engine: string;
+      original_rank: number;
+      title: string;
+      url: string;
+      snippet: string | null;
+      aggregated_rank: number;
+      source_score: number | null;
+    }[] = [];
+
+    items.forEach((m, aggIdx) => {
+      m.engines.forEach((eng) => {
+        resultRows.push({
+          search_history_id: historyId,
+          engine: eng.engine,
+          original_rank: eng.rank,
+          title: m.title,
+          url: m.url,
+          snippet: m.snippet || null,
+          aggregated_rank: rankOffset + aggIdx + 1,
+          source_score: eng.score ?? null,
+        });
+      });
+    });
+
+    const { data: insertedResults, error: resultsError } = await supabase
+      .from("search_results")
+      .insert(resultRows)
+      .select("id, url, engine");
+
+    if (resultsError) {
+      console.error("Failed to save search results:", resultsError);
+      return idMap;
+    }
+
+    insertedResults?.forEach((r) => {
+      if (!idMap.has(r.url)) idMap.set(r.url, {});
+      idMap.get(r.url)![r.engine] = r.id;
+    });
+    return idMap;
+  }, []);
+
+  const searchFor = async (text: string, spelling: SpellingRun = {}) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    if (vertical === "web") await runWebSearch(trimmed, spelling);
+    else await runVerticalSearch(trimmed, vertical);
+  };
+
+  // From the spelling notice (a correction, or the original query) or a related-query chip
+  const searchSuggested = (text: string, exact = false) => {
+    setQuery(text);
+    searchFor(text, { exact });
+  };
+
+  // "Never show this domain" on a result card: multi-search filters it from
+  // now on; drop it from the results on screen too, with an undo
+  const handleBlockDomain = (domain: string) => {
+    const before = results;
+    setResults((prev) => prev.filter((r) => !isOnDomain(r.url, domain)));
+    toast({
+      description: `Results from ${domain} will no longer be shown`,
+      action: (
+        <ToastAction
+          altText="Undo"
+          onClick={() => {
+            unblockDomain(domain)
+              .then(() => setResults(before))
+              .catch((e) => console.error("Failed to unblock domain:", e));
+          }}
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
-    const trimmed = query.trim();
-    if (!trimmed) return;
+    await searchFor(query);
+  };
+
+  // Switching tabs re-runs the current query against the chosen vertical
+  const handleVerticalChange = (value: string) => {
+    const next = value as Vertical;
+    if (next === vertical || loading) return;
+    setVertical(next);
+    if (!searchedQuery) return;
+    if (next === "web") runWebSearch(searchedQuery);
+    else runVerticalSearch(searchedQuery, next);
+  };
+
+  /**
+   * Verticals don't stream, aren't paged and aren't persisted to
+   * search_results, so they don't feed the learning index.
+   */
+  const runVerticalSearch = async (trimmed: string, target: Exclude<Vertical, "web">) => {
+    setLoading(true);
+    setResults([]);
+    setVerticalItems([]);
+    setEngineSummary([]);
+    setRichBlocks(undefined);
+    setQueryIntent(undefined);
+    setSearchedQuery(trimmed);
+    setHasMore(false);
+    setDidYouMean(null);
+    setBlocked([]);
+    setCorrectedFrom(undefined);
+    startTimeRef.current = Date.now();
+
+    try {
+      const response = await multiSearch(trimmed, aggregationMethod, [], { vertical: target, rrfK, localKemenization, diversify });
+      setQueryTime(Date.now() - startTimeRef.current);
+      setUsedMethod(response.aggregation_method);
+
+      if (!response.success) {
+        toast({
+          title: "Search failed",
+          description: response.error || "An error occurred",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (response.warnings && response.warnings.length > 0) {
+        toast({ title: "Heads up", description: response.warnings.join(" ") });
+      }
+      setDidYouMean(response.did_you_mean ?? null);
+      setEngineSummary(response.engineResults || []);
+      setVerticalItems(response.items || []);
+      setBlocked(response.blocked || []);
+    } catch (error) {
+      console.error("Search error:", error);
+      toast({
+        title: "Search failed",
+        description: "Could not connect to search service",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runWebSearch = async (trimmed: string, spelling: SpellingRun = {}) => {
     const isGuest = !user;
 
     setLoading(true);
+    setVerticalItems([]);
     setResults([]);
     setEngineSummary([]);
     setRichBlocks(undefined);
     setQueryIntent(undefined);
     setSearchedQuery(trimmed);
+    setPage(1);
+    setHasMore(false);
+    setInterleavingId(undefined);
+    setDidYouMean(null);
+    setBlocked([]);
+    setCorrectedFrom(spelling.correctedFrom);
     // Process previous session's feedback before starting new search (signed-in only)
     if (!isGuest && prevHistoryIdRef.current) {
       // 1. Tell extension to flush current dwell times to DB
@@ -96,15 +308,40 @@ const Index = () => {
       // 3. Process the feedback and update indexes
       await Promise.all([
         updateLearningIndex(prevHistoryIdRef.current),
-        computeSQM(prevHistoryIdRef.current)
+        computeSQM(prevHistoryIdRef.current),
+        trainLtrModel()
       ]);
+      // Processed; an auto-corrected re-run must not process it again
+      prevHistoryIdRef.current = null;
     }
 
     if (!isGuest) feedback.resetSession();
     startTimeRef.current = Date.now();
 
+    // Subscribe to the streaming session before the search starts so results
+    // from fast engines render while slower ones are still running
+    const sessionId = crypto.randomUUID();
+    activeSessionRef.current = sessionId;
+    searchSessionRef.current = sessionId;
+    const unsubscribe = await subscribeToSearchSession(sessionId, (session) => {
+      if (activeSessionRef.current !== sessionId || session.status !== "running") return;
+      const settled = new Set([
+        ...session.completed_engines,
+        ...session.failed_engines,
+        ...session.timed_out_engines,
+      ]);
+      setPendingEngines(session.all_engines.filter((e) => !settled.has(e)));
+      if (!session.merged_results || session.merged_results.length === 0) return;
+      setResults(session.merged_results.map((m) => ({ ...m, resultIds: {} })));
+      setEngineSummary(engineSummaryFromSession(session));
+      setRichBlocks(session.rich_blocks);
+      setQueryTime(Date.now() - startTimeRef.current);
+    });
+
     try {
-      const response = await multiSearch(trimmed, aggregationMethod);
+      const response = await multiSearch(trimmed, aggregationMethod, [], { sessionId, rrfK, localKemenization, diversify });
+      // Final response supersedes any streamed snapshot
+      activeSessionRef.current = null;
       const elapsed = Date.now() - startTimeRef.current;
       setQueryTime(elapsed);
       setUsedMethod(response.aggregation_method);
@@ -119,9 +356,26 @@ const Index = () => {
         return;
       }
 
+      if (response.warnings && response.warnings.length > 0) {
+        toast({ title: "Heads up", description: response.warnings.join(" ") });
+      }
+
+      // Every engine that corrected the query agrees: search for the
+      // correction instead. Nothing of this search is saved.
+      const correction = response.did_you_mean;
+      if (correction?.unanimous && autoCorrect && !spelling.exact && !spelling.correctedFrom) {
+        setQuery(correction.query);
+        await runWebSearch(correction.query, { correctedFrom: trimmed });
+        return;
+      }
+      setDidYouMean(correction ?? null);
+
       const merged = response.merged || [];
       setEngineSummary(response.engineResults || []);
       setRichBlocks(response.richBlocks);
+      setBlocked(response.blocked || []);
+      setHasMore(!!response.has_more);
+      setInterleavingId(response.interleaving?.impression_id);
       // Guest users: show results without persistence
       if (isGuest) {
         setResults(merged.map((m) => ({ ...m, resultIds: {} })));
@@ -144,47 +398,7 @@ const Index = () => {
 
       if (historyRow && merged.length > 0) {
         prevHistoryIdRef.current = historyRow.id;
-        const resultRows: {
-          search_history_id: string;
-          engine: string;
-          original_rank: number;
-          title: string;
-          url: string;
-          snippet: string | null;
-          aggregated_rank: number;
-        }[] = [];
-
-        merged.forEach((m, aggIdx) => {
-          m.engines.forEach((eng) => {
-            resultRows.push({
-              search_history_id: historyRow.id,
-              engine: eng.engine,
-              original_rank: eng.rank,
-              title: m.title,
-              url: m.url,
-              snippet: m.snippet || null,
-              aggregated_rank: aggIdx + 1,
-            });
-          });
-        });
-
-        const { data: insertedResults, error: resultsError } = await supabase
-          .from("search_results")
-          .insert(resultRows)
-          .select("id, url, engine");
-
-        if (resultsError) {
-          console.error("Failed to save search results:", resultsError);
-          setResults(merged.map((m) => ({ ...m, resultIds: {} })));
-          return;
-        }
-
-        const idMap = new Map<string, Record<string, string>>();
-        insertedResults?.forEach((r) => {
-          if (!idMap.has(r.url)) idMap.set(r.url, {});
-          idMap.get(r.url)![r.engine] = r.id;
-        });
-
+        const idMap = await saveResults(historyRow.id, merged, 0);
         setResults(
           merged.map((m) => ({
             ...m,
@@ -202,10 +416,75 @@ const Index = () => {
         variant: "destructive",
       });
     } finally {
+      activeSessionRef.current = null;
+      unsubscribe();
+      setPendingEngines([]);
       setLoading(false);
     }
   };
 
+  // Fetch the next result page. The server re-aggregates everything up to
+  // that depth; results already on screen keep their place and only new
+  // URLs are appended, in their aggregated order.
+  const loadMore = useCallback(async () => {
+    if (loading || loadingMore || !hasMore || !searchedQuery) return;
+    setLoadingMore(true);
+    const nextPage = page + 1;
+    try {
+      const response = await multiSearch(searchedQuery, usedMethod || aggregationMethod, [], {
+        sessionId: searchSessionRef.current ?? undefined,
+        page: nextPage,
+        rrfK,
+        localKemenization,
+        diversify,
+      });
+      if (!response.success) {
+        toast({
+          title: "Could not load more results",
+          description: response.error || "An error occurred",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const shown = new Set(results.map((r) => r.url));
+      const fresh = (response.merged || []).filter((m) => !shown.has(m.url));
+      const historyId = user ? prevHistoryIdRef.current : null;
+      const idMap = historyId && fresh.length > 0
+        ? await saveResults(historyId, fresh, results.length)
+        : new Map<string, Record<string, string>>();
+
+      setResults((prev) => [...prev, ...fresh.map((m) => ({ ...m, resultIds: idMap.get(m.url) || {} }))]);
+      setEngineSummary(response.engineResults || []);
+      setBlocked(response.blocked || []);
+      setPage(nextPage);
+      setHasMore(!!response.has_more && fresh.length > 0);
+    } catch (error) {
+      console.error("Load more error:", error);
+      toast({
+        title: "Could not load more results",
+        description: "Could not connect to search service",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [loading, loadingMore, hasMore, searchedQuery, page, usedMethod, aggregationMethod, rrfK, localKemenization, diversify, results, user, toast, saveResults]);
+
+  // Infinite scroll: load the next page once the sentinel below the results comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMore();
+      },
+      { rootMargin: "200px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
   // Process learning index on page unload for the last session
   useEffect(() => {
     const handleUnload = () => {
@@ -219,7 +498,9 @@ const Index = () => {
     return () => window.removeEventListener("beforeunload", handleUnload);
   }, []);
 
-  const hasResults = results.length > 0;
+  // A vertical keeps the results layout even when it comes back empty, and
+  // so does a web search with a spelling correction to offer
+  const hasResults = results.length > 0 || (!!searchedQuery && (vertical !== "web" || !!didYouMean || !!correctedFrom));
 
   return (
     <div className={`min-h-screen relative ${hasResults ? "bg-slate-50" : ""} overflow-hidden`}>
@@ -237,9 +518,10 @@ const Index = () => {
           <form onSubmit={handleSearch} className={!hasResults ? "mx-auto max-w-2xl bg-white/60 backdrop-blur-xl border border-white/80 shadow-[0_8px_30px_rgb(0,0,0,0.04)] rounded-full p-2 flex items-center" : "flex gap-2"}>
             <div className="relative flex-1">
               <Search className={`absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 ${!hasResults ? "text-slate-400" : "text-muted-foreground"}`} />
-              <Input
+              <SearchAutocomplete
                 value={query}
-                onChange={(e) => setQuery(e.target.value)}
+                onValueChange={setQuery}
+                onPick={searchFor}
                 placeholder={!hasResults ? "Search with aggregated, personalized results..." : "Search the web..."}
                 className={`pl-12 ${!hasResults ? "h-12 border-0 bg-transparent shadow-none text-lg focus-visible:ring-0 placeholder:text-slate-400" : ""}`}
                 autoFocus
@@ -262,6 +544,17 @@ const Index = () => {
             </Button>
           </form>
 
+          {/* Always offered, so a vertical can be picked before searching or after an empty web search */}
+          <Tabs value={vertical} onValueChange={handleVerticalChange} className={hasResults ? "mt-4" : "mt-4 flex justify-center"}>
+            <TabsList className="h-9">
+              {VERTICAL_TABS.map((tab) => (
+                <TabsTrigger key={tab.value} value={tab.value} disabled={loading} className="text-xs">
+                  {tab.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
           {!hasResults && !loading && (
             <div className="mt-6 space-y-4">
               <p className="text-[15px] font-medium text-slate-700">
@@ -270,7 +563,7 @@ const Index = () => {
             </div>
           )}
 
-          {loading && (
+          {loading && !hasResults && (
             <div className="mt-12 flex flex-col items-center gap-3">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
               <p className="text-sm text-muted-foreground">
@@ -280,21 +573,38 @@ const Index = () => {
           )}
 
           {hasResults && (
-            <div className="mt-4 space-y-3">
+            <div className="mt-3 space-y-3">
               <div className="flex items-center justify-between">
                 <p className="text-sm font-medium text-foreground">
                   Results for &ldquo;{searchedQuery}&rdquo;
                 </p>
+                {loading && (
+                  <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    {vertical !== "web"
+                      ? `Searching ${vertical}...`
+                      : pendingEngines.length > 0
+                        ? `Waiting for ${pendingEngines.map((e) => e.replace("_", " ")).join(", ")}...`
+                        : "Finalizing results..."}
+                  </span>
+                )}
               </div>
+              <SpellingNotice
+                query={searchedQuery}
+                didYouMean={didYouMean}
+                correctedFrom={correctedFrom}
+                onSearch={searchSuggested}
+              />
+              <BlockedNotice blocked={blocked} onManage={() => navigate("/settings")} />
               <EngineStatusBar
                 engines={engineSummary}
-                totalResults={results.length}
+                totalResults={vertical === "web" ? results.length : verticalItems.length}
                 queryTime={queryTime}
                 aggregationMethod={usedMethod}
                 queryIntent={queryIntent}
               />
-              <RichWidgets blocks={richBlocks} />
-              {!user && (
+              {vertical === "web" && <RichWidgets blocks={richBlocks} onSearch={searchSuggested} />}
+              {vertical === "web" && !user && (
                 <button
                   onClick={() => navigate("/auth")}
                   className="flex w-full items-center justify-center gap-1.5 rounded-md border border-primary/20 bg-primary/5 px-3 py-2 text-xs font-medium text-primary transition-colors hover:bg-primary/10"
@@ -303,16 +613,48 @@ const Index = () => {
                   Sign in to save history &amp; get personalized results
                 </button>
               )}
-              <div className="space-y-2 pb-8">
-                {results.map((result, i) => (
-                  <SearchResultCard
-                    key={result.url}
-                    result={result}
-                    index={i}
-                    feedback={feedback}
-                  />
-                ))}
-              </div>
+              {vertical !== "web" && (
+                <div className="pb-8">
+                  {verticalItems.length > 0 ? (
+                    <VerticalResults vertical={vertical} items={verticalItems} />
+                  ) : (
+                    !loading && (
+                      <p className="py-8 text-center text-sm text-muted-foreground">
+                        No {vertical} results for this query.
+                      </p>
+                    )
+                  )}
+                </div>
+              )}
+              {vertical === "web" && (
+                <div className="space-y-2 pb-8">
+                  {results.map((result, i) => (
+                    <SearchResultCard
+                      key={result.url}
+                      result={result}
+                      index={i}
+                      feedback={feedback}
+                      interleavingId={interleavingId}
+                      query={user ? searchedQuery : undefined}
+                      onBlockDomain={handleBlockDomain}
+                    />
+                  ))}
+                  {hasMore && !loading && (
+                    <div ref={loadMoreRef} className="flex justify-center pt-2">
+                      <Button variant="outline" size="sm" onClick={loadMore} disabled={loadingMore}>
+                        {loadingMore ? (
+                          <>
+                            <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                            Loading more results...
+                          </>
+                        ) : (
+                          "Load more results"
+                        )}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -7,8 +7,14 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import AppHeader from "@/components/AppHeader";
+import { blockDomain, domainOf, unblockDomain } from "@/lib/api/explicitFeedback";
+import { fetchBuiltinBangs } from "@/lib/api/search";
 
 const AVAILABLE_ENGINES = [
   { id: "google", label: "Google" },
@@ -21,8 +27,40 @@ const AVAILABLE_ENGINES = [
   { id: "brave", label: "Brave Search" },
   { id: "google_scholar", label: "Google Scholar" },
   { id: "google_news", label: "Google News" },
+  { id: "searxng", label: "SearXNG" },
+  { id: "brave_api", label: "Brave API" },
+  { id: "bing_api", label: "Bing API" },
+  { id: "internal_docs", label: "Internal Docs" },
 ];
 
+/** Sources a bang can target besides the web engines */
+const BANG_TARGETS = [
+  ...AVAILABLE_ENGINES,
+  { id: "local_index", label: "Local Index" },
+  { id: "learned", label: "Learned (personal)" },
+  { id: "community", label: "Community" },
+];
+
+const BANG_NAME = /^[a-z0-9_]{1,32}$/;
+
+const targetLabel = (id: string) => BANG_TARGETS.find((t) => t.id === id)?.label ?? id;
+
+type DomainRuleAction = "boost" | "demote";
+
+/** Mirrors DomainRule in supabase/functions/_shared/aggregation.ts */
+type DomainRule = { domain: string; action: DomainRuleAction; factor: number };
+
+/** "block" isn't a rule: it adds the domain to blocked_domains */
+type DomainAction = DomainRuleAction | "block";
+
+const DOMAIN_ACTIONS: { value: DomainAction; label: string }[] = [
+  { value: "boost", label: "Boost" },
+  { value: "demote", label: "Demote" },
+  { value: "block", label: "Block" },
+];
+
+const MAX_DOMAIN_RULE_FACTOR = 10;
+
 const WEIGHT_LABELS = [
   { key: "weight_v", label: "Click Order (wV)", desc: "Weight for click sequence importance" },
   { key: "weight_t", label: "Dwell Time (wT)", desc: "Weight for time spent on document" },
@@ -41,6 +79,14 @@ const AGGREGATION_METHODS = [
   { value: "mbv", label: "Mean-by-Variance (MBV)" },
   { value: "owa", label: "OWA-improved Shimura" },
   { value: "biased", label: "Biased Rank Aggregation" },
+  { value: "rrf", label: "Reciprocal Rank Fusion (RRF)" },
+  { value: "combsum", label: "CombSUM (normalized ranks)" },
+  { value: "combmnz", label: "CombMNZ (normalized ranks)" },
+  { value: "mc1", label: "Markov Chain MC1" },
+  { value: "mc2", label: "Markov Chain MC2" },
+  { value: "mc3", label: "Markov Chain MC3" },
+  { value: "mc4", label: "Markov Chain MC4" },
+  { value: "ltr", label: "Learning to Rank (trained on your feedback)" },
 ];
 
 type ProfileWeights = {
@@ -52,8 +98,18 @@ type ProfileWeights = {
   weight_e: number;
   weight_c: number;
   reading_speed: number;
+  learning_half_life_days: number;
   default_aggregation_method: string;
+  rrf_k: number;
+  local_kemenization: boolean;
+  diversify: boolean;
+  mmr_lambda: number;
+  domain_cap: number;
+  auto_correct_spelling: boolean;
+  share_learning: boolean;
   preferred_engines: string[] | null;
+  custom_bangs: Record<string, string[]>;
+  domain_rules: DomainRule[];
 };
 
 const SettingsPage = () => {
@@ -61,17 +117,41 @@ const SettingsPage = () => {
   const { toast } = useToast();
   const [profile, setProfile] = useState<ProfileWeights | null>(null);
   const [saving, setSaving] = useState(false);
+  const [newBang, setNewBang] = useState("");
+  const [newBangTarget, setNewBangTarget] = useState("google");
+  const [builtinBangs, setBuiltinBangs] = useState<Record<string, string[]>>({});
+  const [blockedDomains, setBlockedDomains] = useState<string[]>([]);
+  const [newRuleDomain, setNewRuleDomain] = useState("");
+  const [newRuleAction, setNewRuleAction] = useState<DomainAction>("boost");
+  const [newRuleFactor, setNewRuleFactor] = useState(2);
+
+  useEffect(() => {
+    fetchBuiltinBangs().then(setBuiltinBangs);
+  }, []);
 
   useEffect(() => {
     if (!user) return;
     supabase
       .from("profiles")
-      .select("weight_v, weight_t, weight_p, weight_s, weight_b, weight_e, weight_c, reading_speed, default_aggregation_method, preferred_engines")
+      .select("weight_v, weight_t, weight_p, weight_s, weight_b, weight_e, weight_c, reading_speed, learning_half_life_days, default_aggregation_method, rrf_k, local_kemenization, diversify, mmr_lambda, domain_cap, auto_correct_spelling, share_learning, preferred_engines, custom_bangs, domain_rules")
       .eq("id", user.id)
       .single()
       .then(({ data }) => {
-        if (data) setProfile({ ...data, preferred_engines: data.preferred_engines || [] });
+        if (data) {
+          setProfile({
+            ...data,
+            preferred_engines: data.preferred_engines || [],
+            custom_bangs: (data.custom_bangs as Record<string, string[]> | null) || {},
+            domain_rules: (data.domain_rules as DomainRule[] | null) || [],
+          });
+        }
       });
+    supabase
+      .from("blocked_domains")
+      .select("domain")
+      .eq("user_id", user.id)
+      .order("domain")
+      .then(({ data }) => setBlockedDomains((data || []).map((r) => r.domain)));
   }, [user]);
 
   const handleSave = async () => {
@@ -86,6 +166,78 @@ const SettingsPage = () => {
     }
   };
 
+  const addBang = () => {
+    if (!profile) return;
+    const name = newBang.trim().toLowerCase().replace(/^!/, "");
+    if (!BANG_NAME.test(name)) {
+      toast({
+        title: "Invalid bang",
+        description: "Use 1–32 lowercase letters, digits or underscores.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const current = profile.custom_bangs[name] || [];
+    setProfile({
+      ...profile,
+      custom_bangs: {
+        ...profile.custom_bangs,
+        [name]: current.includes(newBangTarget) ? current : [...current, newBangTarget],
+      },
+    });
+    setNewBang("");
+  };
+
+  const removeBang = (name: string) => {
+    if (!profile) return;
+    const { [name]: _removed, ...rest } = profile.custom_bangs;
+    setProfile({ ...profile, custom_bangs: rest });
+  };
+
+  const addDomainRule = async () => {
+    if (!profile) return;
+    const value = newRuleDomain.trim();
+    const domain = domainOf(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+    if (!domain) {
+      toast({ title: "Invalid domain", description: "Enter a domain such as docs.python.org.", variant: "destructive" });
+      return;
+    }
+    if (newRuleAction === "block") {
+      // Takes effect immediately, like blocking from a result card
+      try {
+        await blockDomain(domain);
+        setBlockedDomains((prev) => (prev.includes(domain) ? prev : [...prev, domain].sort()));
+        setNewRuleDomain("");
+      } catch (e) {
+        toast({ title: "Error", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+      }
+      return;
+    }
+    const factor = Math.min(Math.max(newRuleFactor || 1, 1), MAX_DOMAIN_RULE_FACTOR);
+    setProfile({
+      ...profile,
+      domain_rules: [
+        ...profile.domain_rules.filter((r) => r.domain !== domain),
+        { domain, action: newRuleAction, factor },
+      ],
+    });
+    setNewRuleDomain("");
+  };
+
+  const removeDomainRule = (domain: string) => {
+    if (!profile) return;
+    setProfile({ ...profile, domain_rules: profile.domain_rules.filter((r) => r.domain !== domain) });
+  };
+
+  const removeBlockedDomain = async (domain: string) => {
+    try {
+      await unblockDomain(domain);
+      setBlockedDomains((prev) => prev.filter((d) => d !== domain));
+    } catch (e) {
+      toast({ title: "Error", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    }
+  };
+
   if (!profile) {
     return (
       <div className="min-h-screen bg-background">
@@ -154,6 +306,31 @@ const SettingsPage = () => {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle>Freshness</CardTitle>
+            <CardDescription>
+              How fast pages you engaged with fade from your learned results when you stop returning to them.
+              Their learned score halves every this many days.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center gap-4">
+              <Slider
+                min={0}
+                max={720}
+                step={30}
+                value={[profile.learning_half_life_days]}
+                onValueChange={([v]) => setProfile({ ...profile, learning_half_life_days: v })}
+                className="flex-1"
+              />
+              <span className="text-sm font-mono w-20 text-right text-muted-foreground">
+                {profile.learning_half_life_days === 0 ? "Never" : `${profile.learning_half_life_days} days`}
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>Default Aggregation Method</CardTitle>
@@ -175,6 +352,149 @@ const SettingsPage = () => {
                 ))}
               </SelectContent>
             </Select>
+            {profile.default_aggregation_method === "rrf" && (
+              <div className="mt-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>RRF constant (k)</Label>
+                  <span className="text-sm font-mono text-muted-foreground">{profile.rrf_k}</span>
+                </div>
+                <Slider
+                  min={1}
+                  max={200}
+                  step={1}
+                  value={[profile.rrf_k]}
+                  onValueChange={([v]) => setProfile({ ...profile, rrf_k: v })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Smaller values reward top positions more strongly; 60 is the usual default.
+                </p>
+              </div>
+            )}
+            <div className="mt-4 flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="local-kemenization">Local Kemenization</Label>
+                <p className="text-xs text-muted-foreground">
+                  Reorder adjacent results whenever most engines disagree with the method's order.
+                </p>
+              </div>
+              <Switch
+                id="local-kemenization"
+                checked={profile.local_kemenization}
+                onCheckedChange={(v) => setProfile({ ...profile, local_kemenization: v })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Result Diversity</CardTitle>
+            <CardDescription>
+              Stop a single site or near-identical pages from filling the top of the results.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="diversify">Diversify results</Label>
+                <p className="text-xs text-muted-foreground">
+                  Re-order results with maximal marginal relevance (MMR), comparing snippets and URLs.
+                </p>
+              </div>
+              <Switch
+                id="diversify"
+                checked={profile.diversify}
+                onCheckedChange={(v) => setProfile({ ...profile, diversify: v })}
+              />
+            </div>
+            {profile.diversify && (
+              <>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Relevance vs. novelty (λ)</Label>
+                    <span className="text-sm font-mono text-muted-foreground">{profile.mmr_lambda.toFixed(2)}</span>
+                  </div>
+                  <Slider
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={[profile.mmr_lambda]}
+                    onValueChange={([v]) => setProfile({ ...profile, mmr_lambda: v })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    1 keeps the aggregation method's order; lower values push similar results further apart.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Results per domain</Label>
+                    <span className="text-sm font-mono text-muted-foreground">
+                      {profile.domain_cap === 0 ? "No cap" : profile.domain_cap}
+                    </span>
+                  </div>
+                  <Slider
+                    min={0}
+                    max={10}
+                    step={1}
+                    value={[profile.domain_cap]}
+                    onValueChange={([v]) => setProfile({ ...profile, domain_cap: v })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Further results from a domain move below everything else, without being removed.
+                  </p>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Spelling</CardTitle>
+            <CardDescription>
+              Search engines suggest corrections for misspelled queries; these are shown above the results.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="auto-correct-spelling">Search for the correction automatically</Label>
+                <p className="text-xs text-muted-foreground">
+                  When every engine that answered suggests the same correction, show results for it instead.
+                </p>
+              </div>
+              <Switch
+                id="auto-correct-spelling"
+                checked={profile.auto_correct_spelling}
+                onCheckedChange={(v) => setProfile({ ...profile, auto_correct_spelling: v })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Community</CardTitle>
+            <CardDescription>
+              Share what you learned with users who have similar interests, and get their highly rated pages as a separate
+              &ldquo;community&rdquo; source in return.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="share-learning">Join the community engine</Label>
+                <p className="text-xs text-muted-foreground">
+                  A page is only recommended once at least 3 people rated it, and never with who they are, so no one&apos;s
+                  history can be seen through it.
+                </p>
+              </div>
+              <Switch
+                id="share-learning"
+                checked={profile.share_learning}
+                onCheckedChange={(v) => setProfile({ ...profile, share_learning: v })}
+              />
+            </div>
           </CardContent>
         </Card>
 
@@ -209,6 +529,159 @@ const SettingsPage = () => {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle>Bang Shortcuts</CardTitle>
+            <CardDescription>
+              Start or end a query with a bang (e.g. <span className="font-mono">!g rust traits</span>) to send it to one engine only,
+              without changing your preferred engines. Your own bangs override the built-in ones; adding a bang again adds another target.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-1.5">
+              {Object.entries(builtinBangs).map(([bang, targets]) => (
+                <Badge key={bang} variant="secondary" className="font-normal">
+                  <span className="font-mono">!{bang}</span>&nbsp;→ {targets.map(targetLabel).join(", ")}
+                </Badge>
+              ))}
+            </div>
+
+            {Object.keys(profile.custom_bangs).length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {Object.entries(profile.custom_bangs).map(([bang, targets]) => (
+                  <Badge key={bang} variant="outline" className="gap-1 font-normal">
+                    <span className="font-mono">!{bang}</span>&nbsp;→ {targets.map(targetLabel).join(", ")}
+                    <button
+                      type="button"
+                      onClick={() => removeBang(bang)}
+                      className="ml-1 rounded-sm opacity-60 hover:opacity-100"
+                      aria-label={`Remove !${bang}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Input
+                value={newBang}
+                onChange={(e) => setNewBang(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    addBang();
+                  }
+                }}
+                placeholder="!gh"
+                className="w-32 font-mono"
+              />
+              <Select value={newBangTarget} onValueChange={setNewBangTarget}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BANG_TARGETS.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" variant="outline" onClick={addBang} disabled={!newBang.trim()}>
+                Add
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Domain Rules</CardTitle>
+            <CardDescription>
+              Rank a domain and its subdomains higher (boost) or lower (demote) with every aggregation method, or never show
+              them (block). A factor of 2 places a result as if it ranked twice as high, or half as high. Result explanations
+              show what each rule did. Blocking and unblocking, also with &ldquo;Never show&rdquo; on a result, take effect
+              right away.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {(profile.domain_rules.length > 0 || blockedDomains.length > 0) && (
+              <div className="flex flex-wrap gap-1.5">
+                {blockedDomains.map((domain) => (
+                  <Badge key={`block:${domain}`} variant="outline" className="gap-1 font-normal">
+                    {domain}&nbsp;· Blocked
+                    <button
+                      type="button"
+                      onClick={() => removeBlockedDomain(domain)}
+                      className="ml-1 rounded-sm opacity-60 hover:opacity-100"
+                      aria-label={`Unblock ${domain}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+                {profile.domain_rules.map((rule) => (
+                  <Badge key={rule.domain} variant="outline" className="gap-1 font-normal">
+                    {rule.domain}&nbsp;·{" "}
+                    {DOMAIN_ACTIONS.find((a) => a.value === rule.action)?.label} ×{rule.factor}
+                    <button
+                      type="button"
+                      onClick={() => removeDomainRule(rule.domain)}
+                      className="ml-1 rounded-sm opacity-60 hover:opacity-100"
+                      aria-label={`Remove rule for ${rule.domain}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Input
+                value={newRuleDomain}
+                onChange={(e) => setNewRuleDomain(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    addDomainRule();
+                  }
+                }}
+                placeholder="developer.mozilla.org"
+                className="flex-1"
+              />
+              <Select value={newRuleAction} onValueChange={(v) => setNewRuleAction(v as DomainAction)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DOMAIN_ACTIONS.map((a) => (
+                    <SelectItem key={a.value} value={a.value}>
+                      {a.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_DOMAIN_RULE_FACTOR}
+                step={0.5}
+                value={newRuleFactor}
+                onChange={(e) => setNewRuleFactor(Number(e.target.value))}
+                disabled={newRuleAction === "block"}
+                className="w-20"
+                aria-label="Factor"
+              />
+              <Button type="button" variant="outline" onClick={addDomainRule} disabled={!newRuleDomain.trim()}>
+                Add
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
         <Button onClick={handleSave} disabled={saving} className="w-full">
           {saving ? "Saving..." : "Save Preferences"}
         </Button>
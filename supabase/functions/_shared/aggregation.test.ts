@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest";
+import { rankResults, sanitizeDomainRules, teamDraftInterleave, type MergedDoc } from "./aggregation.ts";
+
+const ENGINES = ["e1", "e2", "e3"];
+
+const doc = (url: string, ranks: Record<string, number>): MergedDoc => ({
+  url,
+  title: url,
+  snippet: "",
+  engines: Object.entries(ranks).map(([engine, rank]) => ({ engine, rank })),
+});
+
+const urls = (docs: MergedDoc[]) => docs.map((d) => d.url);
+
+describe("Markov chain methods", () => {
+  // a beats b and c in a majority of engines, b beats c
+  const condorcet = () => [
+    doc("b", { e1: 2, e2: 3, e3: 1 }),
+    doc("c", { e1: 3, e2: 2, e3: 3 }),
+    doc("a", { e1: 1, e2: 1, e3: 2 }),
+  ];
+
+  it.each(["mc1", "mc2", "mc3", "mc4"])("%s ranks the majority order and scores a distribution", (method) => {
+    const ranked = rankResults(condorcet(), method, ENGINES, {});
+    expect(urls(ranked)).toEqual(["a", "b", "c"]);
+    const total = ranked.reduce((sum, d) => sum + d.explanation!.score, 0);
+    expect(total).toBeCloseTo(1, 6);
+    expect(ranked[0].explanation!.method).toBe(method);
+  });
+
+  it.each(["mc1", "mc2", "mc3", "mc4"])("%s keeps one engine's order", (method) => {
+    const docs = [doc("y", { e1: 2 }), doc("z", { e1: 3 }), doc("x", { e1: 1 })];
+    expect(urls(rankResults(docs, method, ["e1"], {}))).toEqual(["x", "y", "z"]);
+  });
+
+  it("mc4 only moves on a majority, so one engine's top result can't outrank a consensus", () => {
+    const docs = () => [doc("solo", { e1: 1 }), doc("all", { e1: 2, e2: 1, e3: 1 })];
+    expect(urls(rankResults(docs(), "mc4", ENGINES, {}))).toEqual(["all", "solo"]);
+    // MC1 treats "solo" as a sink: no list ranks anything above it
+    expect(urls(rankResults(docs(), "mc1", ENGINES, {}))).toEqual(["solo", "all"]);
+  });
+
+  it("credits incoming probability to the engines that voted for a doc", () => {
+    const [top] = rankResults(condorcet(), "mc4", ENGINES, {});
+    const voters = top.explanation!.contributions.filter((c) => c.value > 0).map((c) => c.engine);
+    expect(voters.sort()).toEqual(ENGINES);
+  });
+
+  it("returns nothing for no docs", () => {
+    expect(rankResults([], "mc2", ENGINES, {})).toEqual([]);
+  });
+});
+
+describe("local Kemenization", () => {
+  // Borda puts b first (e3 ranks a 5th), but e1 and e2 both prefer a
+  const docs = () => [doc("a", { e1: 1, e2: 1, e3: 5 }), doc("b", { e1: 2, e2: 2, e3: 1 })];
+
+  it("swaps adjacent docs a majority of engines disagree with", () => {
+    expect(urls(rankResults(docs(), "borda", ENGINES, {}))).toEqual(["b", "a"]);
+    const refined = rankResults(docs(), "borda", ENGINES, {}, { localKemenize: true });
+    expect(urls(refined)).toEqual(["a", "b"]);
+    expect(refined[0].explanation!.adjustments).toEqual([
+      { label: "Local Kemenization moved it up 1 place(s)", value: 1 },
+    ]);
+    expect(refined[1].explanation!.adjustments[0].value).toBe(-1);
+  });
+
+  it("leaves an already locally Kemeny-optimal order alone", () => {
+    const ranked = rankResults(
+      [doc("a", { e1: 1, e2: 2 }), doc("b", { e1: 2, e2: 1 }), doc("c", { e1: 3, e2: 3 })],
+      "borda",
+      ["e1", "e2"],
+      {},
+      { localKemenize: true }
+    );
+    expect(urls(ranked)).toEqual(["a", "b", "c"]);
+    expect(ranked.every((d) => d.explanation!.adjustments.length === 0)).toBe(true);
+  });
+});
+
+describe("domain rules", () => {
+  const sites = () => [1, 2, 3, 4].map((n) => doc(`https://site${n}.com/`, { e1: n }));
+  const hosts = (docs: MergedDoc[]) => docs.map((d) => new URL(d.url).hostname);
+
+  it("keeps well-formed boost and demote rules, one per domain", () => {
+    const rules = sanitizeDomainRules([
+      { domain: "www.Example.com", action: "boost", factor: 3 },
+      { domain: "spam.com", action: "block" },
+      { domain: "other.com", action: "promote", factor: 2 },
+      { domain: "deep.com", action: "demote", factor: 50 },
+      { domain: "example.com", action: "demote", factor: "x" },
+      null,
+    ]);
+    expect(rules).toEqual([
+      { domain: "example.com", action: "demote", factor: 2 },
+      { domain: "deep.com", action: "demote", factor: 10 },
+    ]);
+    expect(sanitizeDomainRules({ domain: "example.com" })).toEqual([]);
+  });
+
+  it("moves a boosted domain up by its factor, ties keeping the method's order", () => {
+    const domainRules = sanitizeDomainRules([{ domain: "site4.com", action: "boost", factor: 4 }]);
+    const ranked = rankResults(sites(), "borda", ["e1"], {}, { domainRules });
+    expect(hosts(ranked)).toEqual(["site1.com", "site4.com", "site2.com", "site3.com"]);
+    expect(ranked[1].explanation!.adjustments.at(-1)).toEqual({
+      label: "Domain rule (boost site4.com ×4) moved it up 2 place(s)",
+      value: 2,
+    });
+  });
+
+  it("moves a demoted domain down by its factor", () => {
+    const domainRules = sanitizeDomainRules([{ domain: "site1.com", action: "demote", factor: 3 }]);
+    const ranked = rankResults(sites(), "borda", ["e1"], {}, { domainRules });
+    expect(hosts(ranked)).toEqual(["site2.com", "site1.com", "site3.com", "site4.com"]);
+  });
+
+  it("applies the most specific rule to subdomains and never drops a doc", () => {
+    const docs = [
+      doc("https://blog.example.com/a", { e1: 1 }),
+      doc("https://docs.example.com/b", { e1: 2 }),
+      doc("https://other.org/c", { e1: 3 }),
+    ];
+    const domainRules = sanitizeDomainRules([
+      { domain: "example.com", action: "demote", factor: 10 },
+      { domain: "docs.example.com", action: "boost", factor: 2 },
+    ]);
+    const ranked = rankResults(docs, "borda", ["e1"], {}, { domainRules });
+    expect(hosts(ranked)).toEqual(["docs.example.com", "other.org", "blog.example.com"]);
+  });
+});
+
+describe("teamDraftInterleave", () => {
+  const list = (...u: string[]) => u.map((url, i) => doc(url, { e1: i + 1 }));
+
+  it("alternates teams, the coin flip deciding who picks first in a round", () => {
+    const a = list("a1", "a2", "a3");
+    const b = list("b1", "b2", "b3");
+    const aFirst = teamDraftInterleave(a, b, () => 0);
+    expect(aFirst.map((d) => [d.url, d.team])).toEqual([
+      ["a1", "a"], ["b1", "b"], ["a2", "a"], ["b2", "b"], ["a3", "a"], ["b3", "b"],
+    ]);
+    expect(teamDraftInterleave(a, b, () => 0.9).map((d) => d.url).slice(0, 2)).toEqual(["b1", "a1"]);
+  });
+
+  it("skips docs the other team already contributed", () => {
+    const result = teamDraftInterleave(list("x", "y", "z"), list("x", "z", "w"), () => 0);
+    expect(result.map((d) => [d.url, d.team])).toEqual([
+      ["x", "a"], ["z", "b"], ["y", "a"], ["w", "b"],
+    ]);
+  });
+
+  it("shows every doc of both rankings once when one runs out", () => {
+    const result = teamDraftInterleave(list("a1"), list("b1", "b2", "b3"), () => 0);
+    expect(result.map((d) => d.url)).toEqual(["a1", "b1", "b2", "b3"]);
+    expect(result.slice(1).every((d) => d.team === "b")).toBe(true);
+  });
+
+  it("does not tag the input docs", () => {
+    const a = list("a1");
+    teamDraftInterleave(a, list("b1"), () => 0);
+    expect(a[0].team).toBeUndefined();
+  });
+});
@@ -0,0 +1,986 @@
+/**
+ * Rank aggregation shared by multi-search (live results) and
+ * evaluate-aggregation (offline replay of logged sessions).
+ *
+ * Input is a list of deduplicated documents, each carrying the rank every
+ * engine gave it; rankResults() returns them in aggregated order with a
+ * RankExplanation attached to each.
+ */
+
+import { ltrFeatures, ltrScore, type LtrModel } from "./ltr.ts";
+import { canonicalHost } from "./url.ts";
+
+export interface MergedDoc {
+  url: string;
+  title: string;
+  snippet: string;
+  date?: string;
+  engines: { engine: string; rank: number; score?: number }[];  // score: the source's own (learned, local_index)
+  explanation?: RankExplanation;              // filled in by the aggregator
+  team?: "a" | "b";                           // interleaving: which method contributed it
+  duplicates?: { url: string; title: string }[];  // near-duplicates folded into it (duplicates.ts)
+  pinned?: boolean;                           // pinned by the user for this query
+  judgment?: "relevant" | "not_relevant";     // the user's thumbs up / down for this query
+}
+
+// ─── Rank Aggregation Algorithms (Task 1 — fixed) ──────────────────
+// All algorithms now use a dynamic maxRank instead of hardcoded N=10.
+// Deterministic tiebreaker: more engines first, then URL alphabetically.
+
+function computeMaxRank(docs: MergedDoc[]): number {
+  let max = 10; // floor
+  for (const d of docs) {
+    for (const e of d.engines) {
+      if (e.rank > max) max = e.rank;
+    }
+  }
+  return max;
+}
+
+/** Sentinel rank for documents absent from an engine */
+function getSentinel(maxRank: number): number {
+  return maxRank + 1;
+}
+
+function getRank(doc: MergedDoc, engine: string, maxRank: number): number {
+  const entry = doc.engines.find((e) => e.engine === engine);
+  return entry ? entry.rank : getSentinel(maxRank);
+}
+
+/** Deterministic tiebreaker: prefer more engines, then alphabetical URL */
+function tiebreak(a: MergedDoc, b: MergedDoc): number {
+  if (b.engines.length !== a.engines.length) return b.engines.length - a.engines.length;
+  return a.url.localeCompare(b.url);
+}
+
+// ── Explanations ────────────────────────────────────────────────────
+// Every aggregator scores documents through scoreAndRank(), which sorts,
+// applies the tiebreaker and attaches a RankExplanation to each document:
+// the aggregator's score, what each engine contributed to it, any
+// adjustments (boosts, penalties) and whether a tiebreak decided the order.
+
+interface EngineContribution {
+  engine: string;
+  rank: number | null;                        // null: engine didn't return the doc
+  value: number;                              // this engine's share of the score
+  weight?: number;                            // multiplier applied to the engine, if any
+  note?: string;
+}
+
+interface ScoreAdjustment {
+  label: string;
+  value: number;
+}
+
+export interface RankExplanation {
+  method: string;
+  score: number;
+  score_label: string;
+  lower_is_better?: boolean;
+  contributions: EngineContribution[];
+  adjustments: ScoreAdjustment[];
+  tiebreak?: string;
+}
+
+interface ScoredDoc {
+  doc: MergedDoc;
+  score: number;
+  contributions: EngineContribution[];
+  adjustments?: ScoreAdjustment[];
+}
+
+/**
+ * Sorts scored documents (ties → tiebreak()), records the explanation on
+ * each document and returns them in ranked order.
+ */
+function scoreAndRank(
+  scored: ScoredDoc[],
+  method: string,
+  scoreLabel: string,
+  lowerIsBetter = false
+): MergedDoc[] {
+  const sorted = [...scored].sort((a, b) => {
+    const diff = lowerIsBetter ? a.score - b.score : b.score - a.score;
+    return diff !== 0 ? diff : tiebreak(a.doc, b.doc);
+  });
+
+  for (let i = 0; i < sorted.length; ) {
+    let j = i + 1;
+    while (j < sorted.length && sorted[j].score === sorted[i].score) j++;
+    const group = sorted.slice(i, j);
+    const sameEngineCount = group.every((s) => s.doc.engines.length === group[0].doc.engines.length);
+    const tiebreakNote = group.length > 1
+      ? `Tied with ${group.length - 1} other result(s) on score; ordered ${
+          sameEngineCount ? "alphabetically by URL" : "by number of engines, then alphabetically by URL"
+        }`
+      : undefined;
+
+    for (const s of group) {
+      s.doc.explanation = {
+        method,
+        score: s.score,
+        score_label: scoreLabel,
+        ...(lowerIsBetter ? { lower_is_better: true } : {}),
+        contributions: s.contributions,
+        adjustments: s.adjustments ?? [],
+        ...(tiebreakNote ? { tiebreak: tiebreakNote } : {}),
+      };
+    }
+    i = j;
+  }
+
+  return sorted.map((s) => s.doc);
+}
+
+/** Weight of the personalized learned engine in Borda and Biased */
+const LEARNED_WEIGHT = 5;
+
+// ── Borda Count ─────────────────────────────────────────────────────
+
+function bordaContributions(doc: MergedDoc, maxRank: number): EngineContribution[] {
+  // Only count engines the doc appears in (no sentinel penalty)
+  return doc.engines.map((e) => {
+    // Massive boost for personalized learned results
+    const weight = e.engine === "learned" ? LEARNED_WEIGHT : 1;
+    return {
+      engine: e.engine,
+      rank: e.rank,
+      value: weight * (maxRank + 1 - e.rank),
+      ...(weight !== 1 ? { weight, note: `Personalized learned boost ×${weight}` } : {}),
+    };
+  });
+}
+
+const sumValues = (contributions: EngineContribution[]) =>
+  contributions.reduce((sum, c) => sum + c.value, 0);
+
+function aggregateBorda(docs: MergedDoc[], maxRank: number): MergedDoc[] {
+  return scoreAndRank(
+    docs.map((doc) => {
+      const contributions = bordaContributions(doc, maxRank);
+      return { doc, score: sumValues(contributions), contributions };
+    }),
+    "borda",
+    "Borda points"
+  );
+}
+
+// ── Pairwise preference helpers (Shimura, OWA) ─────────────────────
+
+/** Per-engine view of doc `a` against its weakest opponent `b` */
+function pairwiseContributions(
+  a: MergedDoc,
+  b: MergedDoc | undefined,
+  engines: string[],
+  maxRank: number,
+  valueOf: (prefers: boolean, engine: string) => number
+): EngineContribution[] {
+  return engines.map((eng) => {
+    const entry = a.engines.find((e) => e.engine === eng);
+    const rankA = getRank(a, eng, maxRank);
+    const prefers = b ? rankA <= getRank(b, eng, maxRank) : true;
+    return {
+      engine: eng,
+      rank: entry ? entry.rank : null,
+      value: valueOf(prefers, eng),
+      note: [
+        entry ? undefined : `Absent — treated as rank ${getSentinel(maxRank)}`,
+        b ? (prefers ? "Ranks it at or above the weakest opponent" : "Ranks the weakest opponent higher") : undefined,
+      ].filter(Boolean).join("; ") || undefined,
+    };
+  });
+}
+
+// ── Shimura (Fuzzy Majority) ────────────────────────────────────────
+
+function aggregateShimura(docs: MergedDoc[], engines: string[], maxRank: number): MergedDoc[] {
+  const m = engines.length;
+  if (m === 0) return aggregateBorda(docs, maxRank);
+  const scored = docs.map((a, i) => {
+    let minPref = Infinity;
+    let weakest: MergedDoc | undefined;
+    for (let j = 0; j < docs.length; j++) {
+      if (i === j) continue;
+      const b = docs[j];
+      let count = 0;
+      for (const eng of engines) {
+        if (getRank(a, eng, maxRank) <= getRank(b, eng, maxRank)) count++;
+      }
+      const pref = count / m;
+      if (pref < minPref) {
+        minPref = pref;
+        weakest = b;
+      }
+    }
+    const contributions = pairwiseContributions(a, weakest, engines, maxRank, (prefers) => (prefers ? 1 / m : 0));
+    return {
+      doc: a,
+      score: minPref === Infinity ? 1 : minPref,
+      contributions,
+      adjustments: weakest ? [{ label: `Weakest pairwise comparison: ${weakest.url}`, value: minPref }] : [],
+    };
+  });
+  return scoreAndRank(scored, "shimura", "Minimum fuzzy preference over all other results");
+}
+
+// ── Modal Rank (FIXED: only count actual ranks, not sentinels) ──────
+
+function aggregateModal(docs: MergedDoc[]): MergedDoc[] {
+  function modalRank(doc: MergedDoc): number {
+    // Only use ranks from engines that actually returned this doc
+    if (doc.engines.length === 0) return Infinity;
+    const freq = new Map<number, number>();
+    for (const e of doc.engines) {
+      freq.set(e.rank, (freq.get(e.rank) || 0) + 1);
+    }
+    let maxFreq = 0;
+    let bestRank = Infinity;
+    for (const [rank, count] of freq) {
+      if (count > maxFreq || (count === maxFreq && rank < bestRank)) {
+        maxFreq = count;
+        bestRank = rank;
+      }
+    }
+    return bestRank;
+  }
+  return scoreAndRank(
+    docs.map((doc) => {
+      const score = modalRank(doc);
+      return {
+        doc,
+        score,
+        contributions: doc.engines.map((e) => ({
+          engine: e.engine,
+          rank: e.rank,
+          value: doc.engines.filter((o) => o.rank === e.rank).length,
+          note: e.rank === score ? "Modal rank" : undefined,
+        })),
+      };
+    }),
+    "modal",
+    "Most frequent rank (ties → best rank)",
+    true
+  );
+}
+
+// ── MFO (Maximum Fuzzy Optimistic) ──────────────────────────────────
+
+function aggregateMFO(docs: MergedDoc[], maxRank: number): MergedDoc[] {
+  return scoreAndRank(
+    docs.map((doc) => {
+      const contributions = doc.engines.map((e) => ({
+        engine: e.engine,
+        rank: e.rank,
+        value: (maxRank + 1 - e.rank) / maxRank,
+      }));
+      const best = contributions.reduce((max, c) => Math.max(max, c.value), 0);
+      return {
+        doc,
+        score: best,
+        contributions: contributions.map((c) => (c.value === best ? { ...c, note: "Best membership" } : c)),
+      };
+    }),
+    "mfo",
+    "Best fuzzy membership across engines"
+  );
+}
+
+// ── MBV (FIXED: compute over actual ranks only, positive scoring) ───
+
+function aggregateMBV(docs: MergedDoc[], maxRank: number): MergedDoc[] {
+  const k = 0.5;
+  return scoreAndRank(
+    docs.map((doc) => {
+      if (doc.engines.length === 0) return { doc, score: 0, contributions: [] };
+      const ranks = doc.engines.map((e) => e.rank);
+      const mean = ranks.reduce((s, r) => s + r, 0) / ranks.length;
+      const variance = ranks.reduce((s, r) => s + (r - mean) ** 2, 0) / ranks.length;
+      // Positive scoring: lower mean = better, lower variance = more consistent
+      // k * σ rewards consistency (subtracts less for low-variance docs)
+      const meanTerm = maxRank + 1 - mean;
+      const consistency = k * Math.sqrt(variance > 0 ? 1 / variance : 1);
+      return {
+        doc,
+        score: meanTerm + consistency,
+        contributions: doc.engines.map((e) => ({
+          engine: e.engine,
+          rank: e.rank,
+          value: (maxRank + 1 - e.rank) / doc.engines.length,
+        })),
+        adjustments: [{ label: `Consistency bonus (rank variance ${variance.toFixed(2)})`, value: consistency }],
+      };
+    }),
+    "mbv",
+    "Mean-rank score plus consistency bonus"
+  );
+}
+
+// ── OWA (Ordered Weighted Averaging) ────────────────────────────────
+
+function aggregateOWA(docs: MergedDoc[], engines: string[], maxRank: number): MergedDoc[] {
+  const m = engines.length;
+  if (m === 0) return aggregateBorda(docs, maxRank);
+  const weights: number[] = [];
+  for (let j = 1; j <= m; j++) {
+    weights.push((2 * (m + 1 - j)) / (m * (m + 1)));
+  }
+  const scored = docs.map((a, i) => {
+    let minOWA = Infinity;
+    let weakest: MergedDoc | undefined;
+    for (let j = 0; j < docs.length; j++) {
+      if (i === j) continue;
+      const b = docs[j];
+      const prefs = engines.map((eng) =>
+        getRank(a, eng, maxRank) <= getRank(b, eng, maxRank) ? 1 : 0
+      );
+      prefs.sort((x, y) => y - x);
+      const owaVal = prefs.reduce((sum, p, idx) => sum + weights[idx] * p, 0);
+      if (owaVal < minOWA) {
+        minOWA = owaVal;
+        weakest = b;
+      }
+    }
+    // OWA weights apply to the sorted preferences: agreeing engines take the
+    // largest weights first
+    let slot = 0;
+    const contributions = pairwiseContributions(a, weakest, engines, maxRank, (prefers) =>
+      prefers ? weights[slot++] : 0
+    );
+    return {
+      doc: a,
+      score: minOWA === Infinity ? 1 : minOWA,
+      contributions,
+      adjustments: weakest ? [{ label: `Weakest pairwise comparison: ${weakest.url}`, value: minOWA }] : [],
+    };
+  });
+  return scoreAndRank(scored, "owa", "Minimum OWA preference over all other results");
+}
+
+// ── Biased (SQM-weighted Borda) ─────────────────────────────────────
+
+function aggregateBiased(
+  docs: MergedDoc[],
+  sqmScores: Record<string, number>,
+  maxRank: number
+): MergedDoc[] {
+  return scoreAndRank(
+    docs.map((doc) => {
+      const contributions = doc.engines.map((e) => {
+        // If it's the learned engine, give it a massive SQM score to ensure it bubbles up
+        const learned = e.engine === "learned";
+        const sqm = learned ? LEARNED_WEIGHT : (sqmScores[e.engine] ?? 1.0);
+        return {
+          engine: e.engine,
+          rank: e.rank,
+          value: sqm * (maxRank + 1 - e.rank),
+          weight: sqm,
+          note: learned
+            ? `Personalized learned boost ×${LEARNED_WEIGHT}`
+            : e.engine in sqmScores ? "Weighted by your search quality measure" : "No SQM yet — default weight 1",
+        };
+      });
+      return { doc, score: sumValues(contributions), contributions };
+    }),
+    "biased",
+    "SQM-weighted Borda points"
+  );
+}
+
+// ── Reciprocal Rank Fusion ──────────────────────────────────────────
+// Cormack et al. (2009): score = Σ 1 / (k + rank). Larger k flattens the
+// advantage of top positions. Unweighted, so it stays a clean baseline.
+
+/** Default RRF constant; requests may override it via rrf_k */
+export const RRF_K = 60;
+const MAX_RRF_K = 1000;
+
+export function clampRrfK(value: unknown): number {
+  const n = Math.floor(Number(value));
+  if (!Number.isFinite(n) || n < 1) return RRF_K;
+  return Math.min(n, MAX_RRF_K);
+}
+
+function aggregateRRF(docs: MergedDoc[], k: number): MergedDoc[] {
+  return scoreAndRank(
+    docs.map((doc) => {
+      const contributions = doc.engines.map((e) => ({ engine: e.engine, rank: e.rank, value: 1 / (k + e.rank) }));
+      return { doc, score: sumValues(contributions), contributions };
+    }),
+    "rrf",
+    `Reciprocal rank fusion (k = ${k})`
+  );
+}
+
+// ── CombSUM / CombMNZ ───────────────────────────────────────────────
+// Fox & Shaw (1994) over normalized ranks: each engine scores a doc
+// (maxRank + 1 − rank) / maxRank ∈ (0, 1]. CombSUM adds them up; CombMNZ
+// multiplies the sum by the number of engines that returned the doc.
+
+function aggregateComb(docs: MergedDoc[], maxRank: number, mnz: boolean): MergedDoc[] {
+  return scoreAndRank(
+    docs.map((doc) => {
+      const contributions = doc.engines.map((e) => ({
+        engine: e.engine,
+        rank: e.rank,
+        value: (maxRank + 1 - e.rank) / maxRank,
+      }));
+      const sum = sumValues(contributions);
+      if (!mnz) return { doc, score: sum, contributions };
+      return {
+        doc,
+        score: sum * doc.engines.length,
+        contributions,
+        adjustments: [{ label: `Returned by ${doc.engines.length} engine(s)`, value: doc.engines.length }],
+      };
+    }),
+    mnz ? "combmnz" : "combsum",
+    mnz ? "Sum of normalized rank scores × engines returning it" : "Sum of normalized rank scores"
+  );
+}
+
+// ── Markov chain aggregation (MC1–MC4) ──────────────────────────────
+// Dwork, Kumar, Naor & Sivakumar (2001). Each document is a state; a
+// random walk moves towards documents the engines rank higher, and the
+// stationary distribution is the score. Engines only rank what they
+// returned, so a list "contains" a doc only if that engine returned it.
+//   MC1: move uniformly to any doc some list ranks at or above the current one
+//   MC2: pick a list containing the current doc, then a doc it ranks at or above
+//   MC3: pick a list containing the current doc and a doc from it; move if ranked higher
+//   MC4: pick any doc; move if a majority of engines rank it higher
+// A small teleport probability keeps the chain ergodic.
+
+type MarkovVariant = "mc1" | "mc2" | "mc3" | "mc4";
+
+const MC_TELEPORT = 0.15;
+const MC_MAX_ITERATIONS = 200;
+const MC_TOLERANCE = 1e-10;
+
+/** Transitions out of one state: target index → engine → probability */
+type MarkovRow = Map<number, Map<string, number>>;
+
+/** Per-engine rank of each doc, plus each engine's docs in rank order */
+function indexRankings(docs: MergedDoc[]) {
+  const ranks = docs.map((d) => new Map(d.engines.map((e) => [e.engine, e.rank])));
+  const lists = new Map<string, number[]>();
+  docs.forEach((d, i) => {
+    for (const e of d.engines) {
+      if (!lists.has(e.engine)) lists.set(e.engine, []);
+      lists.get(e.engine)!.push(i);
+    }
+  });
+  for (const [engine, list] of lists) {
+    list.sort((a, b) => ranks[a].get(engine)! - ranks[b].get(engine)!);
+  }
+  return { ranks, lists };
+}
+
+/**
+ * Engines preferring a over b, and b over a. A doc an engine didn't return
+ * counts as ranked below every doc it did return; engines that returned
+ * neither have no say.
+ */
+function pairwiseVotes(
+  a: Map<string, number>,
+  b: Map<string, number>,
+  engines: string[]
+): { forA: string[]; forB: string[] } {
+  const forA: string[] = [];
+  const forB: string[] = [];
+  for (const eng of engines) {
+    const ra = a.get(eng) ?? Infinity;
+    const rb = b.get(eng) ?? Infinity;
+    if (ra < rb) forA.push(eng);
+    else if (rb < ra) forB.push(eng);
+  }
+  return { forA, forB };
+}
+
+function addTransition(row: MarkovRow, to: number, engine: string, p: number) {
+  if (!row.has(to)) row.set(to, new Map());
+  const byEngine = row.get(to)!;
+  byEngine.set(engine, (byEngine.get(engine) ?? 0) + p);
+}
+
+function markovRow(
+  variant: MarkovVariant,
+  from: number,
+  ranks: Map<string, number>[],
+  lists: Map<string, number[]>
+): MarkovRow {
+  const row: MarkovRow = new Map();
+  const own = ranks[from];
+  const containing = [...own.keys()];
+
+  if (variant === "mc4") {
+    const engines = [...lists.keys()];
+    const n = ranks.length;
+    for (let to = 0; to < n; to++) {
+      if (to === from) continue;
+      const { forA, forB } = pairwiseVotes(ranks[to], own, engines);
+      if (forA.length > forB.length) {
+        for (const eng of forA) addTransition(row, to, eng, 1 / (n * forA.length));
+      }
+    }
+    return row;
+  }
+
+  if (containing.length === 0) return row;
+
+  if (variant === "mc1") {
+    // Multiset union of "ranked at or above" over every list containing the doc
+    const candidates: [number, string][] = [];
+    for (const eng of containing) {
+      for (const to of lists.get(eng)!) {
+        if (ranks[to].get(eng)! > own.get(eng)!) break;
+        candidates.push([to, eng]);
+      }
+    }
+    for (const [to, eng] of candidates) addTransition(row, to, eng, 1 / candidates.length);
+    return row;
+  }
+
+  for (const eng of containing) {
+    const list = lists.get(eng)!;
+    if (variant === "mc2") {
+      const above = list.filter((to) => ranks[to].get(eng)! <= own.get(eng)!);
+      for (const to of above) addTransition(row, to, eng, 1 / (containing.length * above.length));
+    } else {
+      for (const to of list) {
+        if (ranks[to].get(eng)! < own.get(eng)!) addTransition(row, to, eng, 1 / (containing.length * list.length));
+      }
+    }
+  }
+  return row;
+}
+
+function aggregateMarkov(docs: MergedDoc[], variant: MarkovVariant): MergedDoc[] {
+  const n = docs.length;
+  if (n === 0) return [];
+  const { ranks, lists } = indexRankings(docs);
+  const rows = docs.map((_, i) => markovRow(variant, i, ranks, lists));
+
+  // Whatever a row doesn't hand out stays on the current doc
+  const stay = rows.map((row, i) => {
+    let out = 0;
+    for (const [to, byEngine] of row) {
+      if (to === i) continue;
+      for (const p of byEngine.values()) out += p;
+    }
+    return 1 - out;
+  });
+
+  // Power iteration on π = (1 − ε) πT + ε/n
+  let pi = new Float64Array(n).fill(1 / n);
+  for (let iter = 0; iter < MC_MAX_ITERATIONS; iter++) {
+    const next = new Float64Array(n).fill(MC_TELEPORT / n);
+    for (let from = 0; from < n; from++) {
+      const mass = (1 - MC_TELEPORT) * pi[from];
+      next[from] += mass * stay[from];
+      for (const [to, byEngine] of rows[from]) {
+        if (to === from) continue;
+        for (const p of byEngine.values()) next[to] += mass * p;
+      }
+    }
+    let delta = 0;
+    for (let i = 0; i < n; i++) delta += Math.abs(next[i] - pi[i]);
+    pi = next;
+    if (delta < MC_TOLERANCE) break;
+  }
+
+  // Attribute each doc's incoming probability to the engines whose votes moved it there
+  const inflow = docs.map(() => new Map<string, number>());
+  for (let from = 0; from < n; from++) {
+    const mass = (1 - MC_TELEPORT) * pi[from];
+    for (const [to, byEngine] of rows[from]) {
+      if (to === from) continue;
+      for (const [eng, p] of byEngine) inflow[to].set(eng, (inflow[to].get(eng) ?? 0) + mass * p);
+    }
+  }
+
+  return scoreAndRank(
+    docs.map((doc, i) => ({
+      doc,
+      score: pi[i],
+      contributions: [...new Set([...doc.engines.map((e) => e.engine), ...inflow[i].keys()])].map((eng) => ({
+        engine: eng,
+        rank: ranks[i].get(eng) ?? null,
+        value: inflow[i].get(eng) ?? 0,
+        note: ranks[i].has(eng) ? undefined : "Voted for it over docs this engine didn't return",
+      })),
+      adjustments: [
+        { label: "Stayed on this result", value: (1 - MC_TELEPORT) * pi[i] * stay[i] },
+        { label: `Random jump (${MC_TELEPORT * 100}%)`, value: MC_TELEPORT / n },
+      ],
+    })),
+    variant,
+    `Stationary probability of the ${variant.toUpperCase()} chain`
+  );
+}
+
+// ── Local Kemenization ──────────────────────────────────────────────
+// Dwork et al.'s post-pass: insert docs one by one in the aggregator's
+// order, bubbling each one up past any doc a majority of engines rank
+// below it. The result is locally Kemeny-optimal (no adjacent swap lowers
+// the pairwise disagreement) and otherwise stays as close to the input as
+// possible, so it can refine any method.
+
+function localKemenize(ranked: MergedDoc[]): MergedDoc[] {
+  const engines = [...new Set(ranked.flatMap((d) => d.engines.map((e) => e.engine)))];
+  const ranks = new Map(ranked.map((d) => [d, new Map(d.engines.map((e) => [e.engine, e.rank]))]));
+  const prefersOver = (a: MergedDoc, b: MergedDoc) => {
+    const { forA, forB } = pairwiseVotes(ranks.get(a)!, ranks.get(b)!, engines);
+    return forA.length > forB.length;
+  };
+
+  const result: MergedDoc[] = [];
+  for (const doc of ranked) {
+    let pos = result.length;
+    while (pos > 0 && prefersOver(doc, result[pos - 1])) pos--;
+    result.splice(pos, 0, doc);
+  }
+
+  result.forEach((doc, i) => {
+    const moved = ranked.indexOf(doc) - i;
+    if (moved !== 0) {
+      doc.explanation?.adjustments.push({
+        label: `Local Kemenization moved it ${moved > 0 ? "up" : "down"} ${Math.abs(moved)} place(s)`,
+        value: moved,
+      });
+    }
+  });
+  return result;
+}
+
+// ── Domain rules ────────────────────────────────────────────────────
+// The user's boost / demote rules (profiles.domain_rules). A rule covers
+// its domain and every subdomain; the longest matching domain wins.
+// Blocking is not a rule: blocked_domains is applied by multi-search
+// before aggregation. Boosts and demotions re-order the method's output by
+// position rather than score, which works on every method's scale: a doc
+// at position p is placed as if it were at p / factor (boost) or
+// p · factor (demote), ties keeping the method's order.
+
+export type DomainRuleAction = "boost" | "demote";
+
+export interface DomainRule {
+  domain: string;
+  action: DomainRuleAction;
+  /** Strength of the boost or demotion, 1–10 */
+  factor: number;
+}
+
+export const DOMAIN_RULE_FACTOR = 2;
+const MAX_DOMAIN_RULE_FACTOR = 10;
+const MAX_DOMAIN_RULES = 200;
+const DOMAIN_RULE_ACTIONS: DomainRuleAction[] = ["boost", "demote"];
+
+/**
+ * Keeps well-formed rules, one per domain (the last one wins). Anything
+ * else, including legacy "block" entries, is dropped.
+ */
+export function sanitizeDomainRules(raw: unknown): DomainRule[] {
+  if (!Array.isArray(raw)) return [];
+  const rules = new Map<string, DomainRule>();
+  for (const entry of raw.slice(-MAX_DOMAIN_RULES)) {
+    if (!entry || typeof entry !== "object") continue;
+    const { domain, action, factor } = entry as Record<string, unknown>;
+    if (typeof domain !== "string" || !DOMAIN_RULE_ACTIONS.includes(action as DomainRuleAction)) continue;
+    const host = canonicalHost(domain);
+    if (!host || /\s/.test(host)) continue;
+    const f = Number(factor);
+    rules.set(host, {
+      domain: host,
+      action: action as DomainRuleAction,
+      factor: Number.isFinite(f) ? Math.min(Math.max(f, 1), MAX_DOMAIN_RULE_FACTOR) : DOMAIN_RULE_FACTOR,
+    });
+  }
+  return [...rules.values()];
+}
+
+function matchDomainRule(url: string, rules: DomainRule[]): DomainRule | undefined {
+  const host = canonicalHost(url);
+  let best: DomainRule | undefined;
+  for (const rule of rules) {
+    if ((host === rule.domain || host.endsWith(`.${rule.domain}`)) && (!best || rule.domain.length > best.domain.length)) {
+      best = rule;
+    }
+  }
+  return best;
+}
+
+function applyDomainRules(ranked: MergedDoc[], rules: DomainRule[]): MergedDoc[] {
+  const matched = ranked.map((doc) => matchDomainRule(doc.url, rules));
+  if (!matched.some(Boolean)) return ranked;
+
+  const positions = ranked.map((doc, i) => {
+    const rule = matched[i];
+    const multiplier = !rule ? 1 : rule.action === "boost" ? 1 / rule.factor : rule.factor;
+    return { doc, rule, from: i, key: (i + 1) * multiplier };
+  });
+  positions.sort((a, b) => a.key - b.key || a.from - b.from);
+
+  positions.forEach(({ doc, rule, from }, i) => {
+    if (!rule) return;
+    const moved = from - i;
+    const name = `Domain rule (${rule.action} ${rule.domain} ×${rule.factor})`;
+    doc.explanation?.adjustments.push({
+      label: moved !== 0 ? `${name} moved it ${moved > 0 ? "up" : "down"} ${Math.abs(moved)} place(s)` : `${name} kept its place`,
+      value: moved,
+    });
+  });
+  return positions.map((p) => p.doc);
+}
+
+// ── Diversification (MMR) ───────────────────────────────────────────
+// Carbonell & Goldstein's maximal marginal relevance as a post-pass:
+// repeatedly take the doc maximizing
+//   λ · relevance − (1 − λ) · max similarity to the docs already taken.
+// Relevance is the doc's position in the incoming order scaled to 1..0, so
+// the pass behaves the same whatever the method's score scale. Similarity
+// is the cosine of title/snippet embeddings when both docs have one, and
+// otherwise a URL heuristic: 0.5 for the same host, plus up to 0.5 for the
+// share of leading path segments they have in common. With a domain cap,
+// docs from a host that already has that many picks wait until everything
+// else is placed — they are demoted, never dropped.
+
+export const MMR_LAMBDA = 0.7;
+export const DOMAIN_CAP = 3;
+const MAX_DOMAIN_CAP = 50;
+
+export interface DiversifyOptions {
+  /** 1 keeps the method's order, 0 only maximizes novelty */
+  lambda: number;
+  /** Max results per host before the rest are demoted; 0 = no cap */
+  domainCap: number;
+  /** URL → title/snippet embedding, for the docs that have one */
+  embeddings?: Map<string, number[]>;
+}
+
+export function clampMmrLambda(value: unknown): number {
+  const lambda = Number(value);
+  return Number.isFinite(lambda) ? Math.min(Math.max(lambda, 0), 1) : MMR_LAMBDA;
+}
+
+export function clampDomainCap(value: unknown): number {
+  const cap = Math.floor(Number(value));
+  return Number.isFinite(cap) ? Math.min(Math.max(cap, 0), MAX_DOMAIN_CAP) : DOMAIN_CAP;
+}
+
+function parseUrl(url: string): { host: string; path: string[] } {
+  try {
+    const u = new URL(url);
+    return { host: u.hostname.replace(/^www\./, ""), path: u.pathname.split("/").filter(Boolean) };
+  } catch {
+    return { host: url, path: [] };
+  }
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function diversify(ranked: MergedDoc[], options: DiversifyOptions): MergedDoc[] {
+  const n = ranked.length;
+  if (n < 2) return ranked;
+  const lambda = options.lambda;
+  const urls = ranked.map((d) => parseUrl(d.url));
+  const vectors = ranked.map((d) => options.embeddings?.get(d.url));
+
+  const similarity = (i: number, j: number): number => {
+    const vi = vectors[i], vj = vectors[j];
+    if (vi && vj) return cosine(vi, vj);
+    if (urls[i].host !== urls[j].host) return 0;
+    const a = urls[i].path, b = urls[j].path;
+    let shared = 0;
+    while (shared < a.length && shared < b.length && a[shared] === b[shared]) shared++;
+    return 0.5 + 0.5 * (shared / Math.max(a.length, b.length, 1));
+  };
+
+  const remaining = ranked.map((_, i) => i);
+  const maxSim = new Array<number>(n).fill(0);
+  const perHost = new Map<string, number>();
+  const capped = new Set<number>();
+  const result: MergedDoc[] = [];
+
+  while (remaining.length > 0) {
+    const underCap = (i: number) => !options.domainCap || (perHost.get(urls[i].host) ?? 0) < options.domainCap;
+    const eligible = remaining.some(underCap) ? remaining.filter(underCap) : remaining;
+    let best = eligible[0];
+    let bestScore = -Infinity;
+    for (const i of eligible) {
+      const mmr = lambda * (1 - i / (n - 1)) - (1 - lambda) * maxSim[i];
+      if (mmr > bestScore) {
+        best = i;
+        bestScore = mmr;
+      }
+    }
+    if (eligible.length < remaining.length) remaining.filter((i) => !underCap(i)).forEach((i) => capped.add(i));
+
+    remaining.splice(remaining.indexOf(best), 1);
+    result.push(ranked[best]);
+    perHost.set(urls[best].host, (perHost.get(urls[best].host) ?? 0) + 1);
+    for (const i of remaining) maxSim[i] = Math.max(maxSim[i], similarity(i, best));
+  }
+
+  result.forEach((doc, i) => {
+    const from = ranked.indexOf(doc);
+    const moved = from - i;
+    if (moved !== 0) {
+      const cause = capped.has(from) ? `Per-domain cap (${options.domainCap})` : "Diversification";
+      doc.explanation?.adjustments.push({
+        label: `${cause} moved it ${moved > 0 ? "up" : "down"} ${Math.abs(moved)} place(s)`,
+        value: moved,
+      });
+    }
+  });
+  return result;
+}
+
+// ── Learning to rank ────────────────────────────────────────────────
+// The user's pairwise model from train-ltr (see ltr.ts). Without a trained
+// model yet, falls back to Borda.
+
+const LTR_FEATURE_LABELS: Record<string, string> = {
+  "rr:best": "Best rank across engines",
+  engines: "Number of engines",
+  learned_score: "Personalized learned score",
+  local_similarity: "Local index similarity",
+};
+
+function aggregateLtr(docs: MergedDoc[], model: LtrModel): MergedDoc[] {
+  return scoreAndRank(
+    docs.map((doc) => {
+      const features = ltrFeatures(doc);
+      const contributions = doc.engines.map((e) => ({
+        engine: e.engine,
+        rank: e.rank,
+        value: (model.weights[`rr:${e.engine}`] ?? 0) * features[`rr:${e.engine}`],
+        weight: model.weights[`rr:${e.engine}`] ?? 0,
+      }));
+      const adjustments = Object.entries(features)
+        .filter(([name]) => !name.startsWith("rr:") || name === "rr:best")
+        .map(([name, value]) => ({
+          label: name.startsWith("domain:") ? `Domain ${name.slice(7)}` : LTR_FEATURE_LABELS[name] ?? name,
+          value: (model.weights[name] ?? 0) * value,
+        }))
+        .filter((a) => a.value !== 0);
+      return { doc, score: ltrScore(model, features), contributions, adjustments };
+    }),
+    "ltr",
+    `Learned ranking model (${model.pairs} training pairs)`
+  );
+}
+
+// ── Dispatcher ──────────────────────────────────────────────────────
+
+/** Every method rankResults() understands; unknown names fall back to Borda */
+export const AGGREGATION_METHODS = [
+  "borda", "shimura", "modal", "mfo", "mbv", "owa", "biased",
+  "rrf", "combsum", "combmnz", "mc1", "mc2", "mc3", "mc4", "ltr",
+] as const;
+
+export interface RankOptions {
+  /** RRF constant k (rrf only) */
+  rrfK?: number;
+  /** Refine the method's order with a local-Kemenization pass */
+  localKemenize?: boolean;
+  /** The user's trained model (ltr only) */
+  ltrModel?: LtrModel | null;
+  /** The user's domain rules, applied to the method's order */
+  domainRules?: DomainRule[];
+  /** Re-order the final list for novelty (MMR) and cap results per domain */
+  diversify?: DiversifyOptions | null;
+}
+
+function aggregateByMethod(
+  docs: MergedDoc[],
+  method: string,
+  activeEngines: string[],
+  sqmScores: Record<string, number>,
+  options: RankOptions = {}
+): MergedDoc[] {
+  const maxRank = computeMaxRank(docs);
+  switch (method) {
+    case "rrf":
+      return aggregateRRF(docs, options.rrfK ?? RRF_K);
+    case "combsum":
+      return aggregateComb(docs, maxRank, false);
+    case "combmnz":
+      return aggregateComb(docs, maxRank, true);
+    case "mc1":
+    case "mc2":
+    case "mc3":
+    case "mc4":
+      return aggregateMarkov(docs, method);
+    case "ltr":
+      return options.ltrModel ? aggregateLtr(docs, options.ltrModel) : aggregateBorda(docs, maxRank);
+    case "shimura":
+      return aggregateShimura(docs, activeEngines, maxRank);
+    case "modal":
+      return aggregateModal(docs);
+    case "mfo":
+      return aggregateMFO(docs, maxRank);
+    case "mbv":
+      return aggregateMBV(docs, maxRank);
+    case "owa":
+      return aggregateOWA(docs, activeEngines, maxRank);
+    case "biased":
+      return aggregateBiased(docs, sqmScores, maxRank);
+    case "borda":
+    default:
+      return aggregateBorda(docs, maxRank);
+  }
+}
+
+export function rankResults(
+  docs: MergedDoc[],
+  method: string,
+  activeEngines: string[],
+  sqmScores: Record<string, number>,
+  options: RankOptions = {}
+): MergedDoc[] {
+  const ranked = aggregateByMethod(docs, method, activeEngines, sqmScores, options);
+  const refined = applyDomainRules(options.localKemenize ? localKemenize(ranked) : ranked, options.domainRules ?? []);
+  return options.diversify ? diversify(refined, options.diversify) : refined;
+}
+
+// ── Team-draft interleaving ─────────────────────────────────────────
+// Radlinski, Kurup & Joachims (2008). Mixes two rankings of the same docs
+// for online comparison: each round the team with fewer picks (coin flip
+// on a tie) adds its highest-ranked doc not already shown, tagged with its
+// team. Clicks are then credited to the team that contributed the result.
+
+export function teamDraftInterleave(
+  rankingA: MergedDoc[],
+  rankingB: MergedDoc[],
+  random: () => number = Math.random
+): MergedDoc[] {
+  const shown = new Set<string>();
+  const result: MergedDoc[] = [];
+  const next = { a: 0, b: 0 };
+  const picks = { a: 0, b: 0 };
+  const nextUnseen = (ranking: MergedDoc[], team: "a" | "b") => {
+    while (next[team] < ranking.length && shown.has(ranking[next[team]].url)) next[team]++;
+    return ranking[next[team]];
+  };
+
+  for (;;) {
+    const candidateA = nextUnseen(rankingA, "a");
+    const candidateB = nextUnseen(rankingB, "b");
+    if (!candidateA && !candidateB) break;
+
+    const preferA = picks.a < picks.b || (picks.a === picks.b && random() < 0.5);
+    const team = (preferA && candidateA) || !candidateB ? "a" : "b";
+    const doc = team === "a" ? candidateA : candidateB;
+    shown.add(doc.url);
+    picks[team]++;
+    result.push({ ...doc, team });
+  }
+  return result;
+}
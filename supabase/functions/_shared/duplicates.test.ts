@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import type { MergedDoc } from "./aggregation.ts";
+import { clusterNearDuplicates, simhash, type PageSignature } from "./duplicates.ts";
+
+const ARTICLE =
+  "The city council approved the new budget on Tuesday after a long debate about funding for public " +
+  "transport, schools and the maintenance of parks, with the final vote passing by seven to four.";
+
+/** Bits set in a ^ b, for two 16-digit hex signatures */
+function distance(a: string, b: string): number {
+  let bits = 0;
+  for (let i = 0; i < 16; i += 8) {
+    let x = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    for (; x; x &= x - 1) bits++;
+  }
+  return bits;
+}
+
+const doc = (url: string, title: string, ranks: Record<string, number>, snippet = ""): MergedDoc => ({
+  url,
+  title,
+  snippet,
+  engines: Object.entries(ranks).map(([engine, rank]) => ({ engine, rank })),
+});
+
+describe("simhash", () => {
+  it("is a stable 64-bit hex signature, case- and punctuation-insensitive", () => {
+    const signature = simhash(ARTICLE);
+    expect(signature).toMatch(/^[0-9a-f]{16}$/);
+    expect(simhash(ARTICLE.toUpperCase().replace(/,/g, " ;"))).toBe(signature);
+  });
+
+  it("puts lightly edited text close and unrelated text far", () => {
+    const edited = ARTICLE.replace("Tuesday", "Wednesday");
+    const other = "Rust's ownership model guarantees memory safety without a garbage collector, " +
+      "using borrowing rules checked at compile time for every reference in the program.";
+    expect(distance(simhash(ARTICLE)!, simhash(edited)!)).toBeLessThanOrEqual(12);
+    expect(distance(simhash(ARTICLE)!, simhash(other)!)).toBeGreaterThan(distance(simhash(ARTICLE)!, simhash(edited)!));
+  });
+
+  it("needs at least one shingle of three words", () => {
+    expect(simhash("too short")).toBeNull();
+    expect(simhash("three words here")).not.toBeNull();
+  });
+});
+
+describe("clusterNearDuplicates", () => {
+  it("folds syndicated copies with the same title on other sites", () => {
+    const docs = [
+      doc("https://news-a.com/budget", "City council approves new budget after debate | News A", { bing: 3 }),
+      doc("https://news-b.com/story/1", "City council approves new budget after debate - News B", { google: 1, bing: 5 }, "Snippet"),
+      doc("https://other.com", "Something else entirely about city budgets today", { google: 2 }),
+    ];
+    const clustered = clusterNearDuplicates(docs);
+    expect(clustered).toHaveLength(2);
+
+    // The member returned by more engines leads and carries every engine's best rank
+    const [cluster] = clustered;
+    expect(cluster.url).toBe("https://news-b.com/story/1");
+    expect(cluster.engines).toEqual([{ engine: "google", rank: 1 }, { engine: "bing", rank: 3 }]);
+    expect(cluster.duplicates).toEqual([
+      { url: "https://news-a.com/budget", title: "City council approves new budget after debate | News A" },
+    ]);
+    expect(cluster.snippet).toBe("Snippet");
+  });
+
+  it("does not match short titles or pages on the same host", () => {
+    const docs = [
+      doc("https://a.com/login", "Login | A", { google: 1 }),
+      doc("https://b.com/login", "Login | B", { google: 2 }),
+      doc("https://c.com/x", "Release notes for version two point one", { google: 3 }),
+      doc("https://www.c.com/y", "Release notes for version two point one", { google: 4 }),
+    ];
+    expect(clusterNearDuplicates(docs)).toHaveLength(4);
+  });
+
+  it("uses crawled content hashes and close SimHash signatures, transitively", () => {
+    const sig = simhash(ARTICLE)!;
+    const flipped = (parseInt(sig.slice(15), 16) ^ 0b11).toString(16);
+    const signatures = new Map<string, PageSignature>([
+      ["a.com/1", { contentHash: "h1", simhash: null }],
+      ["b.com/2", { contentHash: "h1", simhash: sig }],
+      ["c.com/3", { contentHash: null, simhash: sig.slice(0, 15) + flipped }],
+      ["d.com/4", { contentHash: "h2", simhash: "ffffffffffffffff" }],
+    ]);
+    const docs = [
+      doc("https://a.com/1", "A", { google: 1 }),
+      doc("https://b.com/2", "B", { bing: 1 }),
+      doc("https://www.c.com/3/", "C", { yandex: 1 }),
+      doc("https://d.com/4", "D", { google: 2 }),
+    ];
+    const clustered = clusterNearDuplicates(docs, signatures);
+    expect(clustered.map((d) => d.url)).toEqual(["https://a.com/1", "https://d.com/4"]);
+    expect(clustered[0].duplicates!.map((d) => d.url)).toEqual(["https://b.com/2", "https://www.c.com/3/"]);
+    expect(clustered[0].engines.map((e) => e.engine)).toEqual(["google", "bing", "yandex"]);
+  });
+});
@@ -0,0 +1,155 @@
+import type { MergedDoc } from "./aggregation.ts";
+import { canonicalUrl } from "./url.ts";
+
+/**
+ * Near-duplicate clustering of merged results: syndicated articles, press
+ * releases and mirrors that live at different URLs. Two results are near
+ * duplicates when any of these hold:
+ *   - their crawled text has the same web_pages.content_hash
+ *   - their SimHash signatures (web_pages.simhash) differ in at most
+ *     SIMHASH_MAX_DISTANCE of 64 bits
+ *   - they are on different hosts and their titles, minus a trailing
+ *     " | Site name" part, share at least TITLE_MIN_JACCARD of their words
+ *
+ * Clusters are formed transitively and collapse into one result that
+ * carries every member's engine ranks, so the aggregator credits the
+ * cluster with all of them; the other members are listed in `duplicates`.
+ */
+
+export interface PageSignature {
+  contentHash: string | null;
+  simhash: string | null;
+}
+
+const SIMHASH_MAX_DISTANCE = 3;
+const SHINGLE_SIZE = 3;
+const TITLE_MIN_JACCARD = 0.8;
+/** Shorter titles ("Home", "Login") say too little to match on */
+const TITLE_MIN_WORDS = 5;
+
+// ── SimHash ─────────────────────────────────────────────────────────
+// Charikar's SimHash over 3-word shingles: each shingle's 64-bit hash
+// votes ±1 per bit; the signature keeps the bits with a positive total.
+// Similar texts get signatures a small Hamming distance apart. Stored as
+// 16 hex digits, built from two independent 32-bit FNV-1a hashes.
+
+function fnv1a(text: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function simhash(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length < SHINGLE_SIZE) return null;
+
+  const votes = new Array<number>(64).fill(0);
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    const shingle = words.slice(i, i + SHINGLE_SIZE).join(" ");
+    const halves = [fnv1a(shingle, 0x811c9dc5), fnv1a(shingle, 0x050c5d1f)];
+    for (let bit = 0; bit < 64; bit++) {
+      votes[bit] += (halves[bit >> 5] >>> (bit & 31)) & 1 ? 1 : -1;
+    }
+  }
+
+  const halves = [0, 0];
+  votes.forEach((v, bit) => {
+    if (v > 0) halves[bit >> 5] |= 1 << (bit & 31);
+  });
+  return halves.map((h) => (h >>> 0).toString(16).padStart(8, "0")).join("");
+}
+
+function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < 16; i += 8) {
+    let x = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    while (x) {
+      x &= x - 1;
+      distance++;
+    }
+  }
+  return distance;
+}
+
+// ── Titles ──────────────────────────────────────────────────────────
+
+function titleWords(title: string): Set<string> {
+  // Syndicated copies differ in the site name tacked on at the end
+  const parts = title.split(/\s+[|–—-]\s+/);
+  const core = parts.length > 1 ? parts.slice(0, -1).join(" ") : title;
+  return new Set(core.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const w of a) if (b.has(w)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+const hostOf = (url: string) => canonicalUrl(url).split(/[/?]/)[0];
+
+// ── Clustering ──────────────────────────────────────────────────────
+
+export function clusterNearDuplicates(
+  docs: MergedDoc[],
+  signatures: Map<string, PageSignature> = new Map()
+): MergedDoc[] {
+  const n = docs.length;
+  const info = docs.map((doc) => ({
+    host: hostOf(doc.url),
+    words: titleWords(doc.title),
+    signature: signatures.get(canonicalUrl(doc.url)),
+  }));
+
+  // Union-find over near-duplicate pairs
+  const parent = docs.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const isNearDuplicate = (i: number, j: number) => {
+    const a = info[i], b = info[j];
+    if (a.signature?.contentHash && a.signature.contentHash === b.signature?.contentHash) return true;
+    if (a.signature?.simhash && b.signature?.simhash &&
+        hammingDistance(a.signature.simhash, b.signature.simhash) <= SIMHASH_MAX_DISTANCE) return true;
+    return a.host !== b.host &&
+      a.words.size >= TITLE_MIN_WORDS && b.words.size >= TITLE_MIN_WORDS &&
+      jaccard(a.words, b.words) >= TITLE_MIN_JACCARD;
+  };
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (find(i) !== find(j) && isNearDuplicate(i, j)) parent[find(j)] = find(i);
+    }
+  }
+
+  const clusters = new Map<number, MergedDoc[]>();
+  docs.forEach((doc, i) => {
+    const root = find(i);
+    if (!clusters.has(root)) clusters.set(root, []);
+    clusters.get(root)!.push(doc);
+  });
+
+  return [...clusters.values()].map((members) => {
+    if (members.length === 1) return members[0];
+    // Representative: returned by the most engines, then best rank
+    const bestRank = (d: MergedDoc) => Math.min(...d.engines.map((e) => e.rank));
+    const [lead, ...rest] = [...members].sort(
+      (a, b) => b.engines.length - a.engines.length || bestRank(a) - bestRank(b)
+    );
+
+    const engines = lead.engines.map((e) => ({ ...e }));
+    for (const member of rest) {
+      for (const e of member.engines) {
+        const existing = engines.find((x) => x.engine === e.engine);
+        if (!existing) engines.push({ ...e });
+        else if (e.rank < existing.rank) Object.assign(existing, e);
+      }
+    }
+    return {
+      ...lead,
+      snippet: lead.snippet || rest.find((d) => d.snippet)?.snippet || "",
+      engines,
+      duplicates: rest.map((d) => ({ url: d.url, title: d.title })),
+    };
+  });
+}
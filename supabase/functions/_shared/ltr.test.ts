@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { rankResults } from "./aggregation.ts";
+import { ltrFeatures, ltrScore, trainLtrModel } from "./ltr.ts";
+import type { LoggedDoc, LoggedSession } from "./sessions.ts";
+
+const doc = (url: string, ranks: Record<string, number>, shownRank = 1): LoggedDoc => ({
+  url,
+  title: url,
+  snippet: "",
+  engines: Object.entries(ranks).map(([engine, rank]) => ({ engine, rank })),
+  shownRank,
+});
+
+/** e1 and e2 disagree; the user only ever engages with e2's top result */
+function sessions(count: number): LoggedSession[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `s${i}`,
+    docs: [
+      doc(`https://e1-pick.com/${i}`, { e1: 1, e2: 5 }, 1),
+      doc(`https://e2-pick.org/${i}`, { e1: 5, e2: 1 }, 2),
+      doc(`https://other.net/${i}`, { e1: 3, e2: 3 }, 3),
+    ],
+    relevance: new Map([[`e2-pick.org/${i}`, 1]]),
+  }));
+}
+
+describe("ltrFeatures", () => {
+  it("describes a doc by reciprocal ranks, engine count, domain and source scores", () => {
+    const features = ltrFeatures({
+      url: "https://www.docs.rs/tokio",
+      title: "",
+      snippet: "",
+      engines: [
+        { engine: "google", rank: 2 },
+        { engine: "learned", rank: 1, score: 0.8 },
+        { engine: "local_index", rank: 4, score: 0.6 },
+      ],
+    });
+    expect(features).toEqual({
+      "rr:google": 0.5,
+      "rr:learned": 1,
+      "rr:local_index": 0.25,
+      "rr:best": 1,
+      engines: 2,
+      "domain:docs.rs": 1,
+      learned_score: 0.8,
+      local_similarity: 0.6,
+    });
+  });
+});
+
+describe("ltrScore", () => {
+  it("is the dot product of weights and features, unknown features weighing 0", () => {
+    const model = { weights: { "rr:e1": 2, engines: -1 }, pairs: 1 };
+    expect(ltrScore(model, { "rr:e1": 0.5, engines: 1, "domain:a.com": 1 })).toBe(0);
+    expect(ltrScore(model, { "rr:e1": 1 })).toBe(2);
+  });
+});
+
+describe("trainLtrModel", () => {
+  it("learns to trust the engine whose results the user engages with", () => {
+    const model = trainLtrModel(sessions(5));
+    // each relevant doc is paired with the two others of its session
+    expect(model.pairs).toBe(10);
+    expect(model.weights["rr:e2"]).toBeGreaterThan(0);
+    expect(model.weights["rr:e2"]).toBeGreaterThan(model.weights["rr:e1"] ?? 0);
+
+    const [fresh] = sessions(1);
+    const scores = fresh.docs.map((d) => ltrScore(model, ltrFeatures(d)));
+    expect(scores[1]).toBeGreaterThan(scores[0]);
+    expect(scores[1]).toBeGreaterThan(scores[2]);
+  });
+
+  it("has nothing to learn from sessions without engagement", () => {
+    const model = trainLtrModel(sessions(3).map((s) => ({ ...s, relevance: new Map() })));
+    expect(model).toEqual({ weights: {}, pairs: 0 });
+  });
+
+  it("drives the ltr aggregation method, which falls back to Borda without a model", () => {
+    const model = trainLtrModel(sessions(5));
+    const [fresh] = sessions(1);
+    expect(rankResults(fresh.docs, "ltr", ["e1", "e2"], {}, { ltrModel: model })[0].url).toBe(
+      "https://e2-pick.org/0"
+    );
+    const fallback = rankResults(fresh.docs, "ltr", ["e1", "e2"], {});
+    expect(fallback[0].explanation!.method).toBe("borda");
+  });
+});
@@ -0,0 +1,97 @@
+import type { MergedDoc } from "./aggregation.ts";
+import type { LoggedSession } from "./sessions.ts";
+import { canonicalUrl } from "./url.ts";
+
+/**
+ * Lightweight per-user learning-to-rank: a linear model trained with a
+ * pairwise logistic loss (RankNet with a linear scorer). For every logged
+ * session, each document the user engaged with should outscore each
+ * document they engaged with less (or not at all); weights move along the
+ * feature difference of misordered pairs.
+ *
+ * Features are sparse and named, so new engines and domains just add keys:
+ *   rr:<engine>       1 / rank from that engine (absent → 0)
+ *   rr:best           best 1 / rank across engines
+ *   engines           log2(1 + number of engines returning the doc)
+ *   domain:<host>     1 for the doc's domain
+ *   learned_score     learned_score from the personalized index, if it matched
+ *   local_similarity  similarity from the local web index, if it matched
+ */
+
+export interface LtrModel {
+  weights: Record<string, number>;
+  /** Training pairs the weights were fitted on */
+  pairs: number;
+}
+
+const EPOCHS = 30;
+const LEARNING_RATE = 0.1;
+const L2 = 0.001;
+/** Cap on less-relevant partners per relevant doc, so long sessions don't dominate */
+const MAX_PARTNERS = 20;
+
+const hostname = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+};
+
+export function ltrFeatures(doc: MergedDoc): Record<string, number> {
+  const features: Record<string, number> = {};
+  let best = 0;
+  for (const e of doc.engines) {
+    const rr = 1 / e.rank;
+    features[`rr:${e.engine}`] = rr;
+    best = Math.max(best, rr);
+    if (e.engine === "learned" && e.score !== undefined) features.learned_score = e.score;
+    if (e.engine === "local_index" && e.score !== undefined) features.local_similarity = e.score;
+  }
+  features["rr:best"] = best;
+  features.engines = Math.log2(1 + doc.engines.length);
+  const host = hostname(doc.url);
+  if (host) features[`domain:${host}`] = 1;
+  return features;
+}
+
+export function ltrScore(model: LtrModel, features: Record<string, number>): number {
+  let score = 0;
+  for (const [name, value] of Object.entries(features)) score += (model.weights[name] ?? 0) * value;
+  return score;
+}
+
+export function trainLtrModel(sessions: LoggedSession[]): LtrModel {
+  // Preference pairs: [preferred features, other features]
+  const pairs: [Record<string, number>, Record<string, number>][] = [];
+  for (const { docs, relevance } of sessions) {
+    const scored = docs.map((doc) => ({ features: ltrFeatures(doc), rel: relevance.get(canonicalUrl(doc.url)) ?? 0 }));
+    for (const better of scored) {
+      if (better.rel <= 0) continue;
+      const partners = scored.filter((other) => other.rel < better.rel).slice(0, MAX_PARTNERS);
+      for (const worse of partners) pairs.push([better.features, worse.features]);
+    }
+  }
+
+  const weights: Record<string, number> = {};
+  for (let epoch = 0; epoch < EPOCHS; epoch++) {
+    for (const [better, worse] of pairs) {
+      const diff: Record<string, number> = { ...better };
+      for (const [name, value] of Object.entries(worse)) diff[name] = (diff[name] ?? 0) - value;
+
+      // P(better ≻ worse) = σ(w · diff); step along (1 − P) · diff
+      let margin = 0;
+      for (const [name, value] of Object.entries(diff)) margin += (weights[name] ?? 0) * value;
+      const gradient = 1 - 1 / (1 + Math.exp(-margin));
+      for (const [name, value] of Object.entries(diff)) {
+        const w = weights[name] ?? 0;
+        weights[name] = w + LEARNING_RATE * (gradient * value - L2 * w);
+      }
+    }
+  }
+
+  for (const [name, w] of Object.entries(weights)) {
+    if (Math.abs(w) < 1e-6) delete weights[name];
+  }
+  return { weights, pairs: pairs.length };
+}
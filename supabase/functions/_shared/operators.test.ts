@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildEngineQuery,
+  engineQueryKey,
+  hasOperators,
+  matchesOperators,
+  operatorFreeQuery,
+  parseSearchQuery,
+} from "./operators.ts";
+
+const doc = (url: string, extra: { title?: string; snippet?: string; date?: string } = {}) => ({
+  url,
+  title: extra.title ?? "",
+  snippet: extra.snippet ?? "",
+  date: extra.date,
+});
+
+describe("parseSearchQuery", () => {
+  it("separates operators from free text", () => {
+    const parsed = parseSearchQuery(
+      'rust "error handling" -unsafe site:https://www.Docs.rs/ -site:reddit.com filetype:.PDF after:2020 before:2023/6'
+    );
+    expect(parsed).toEqual({
+      terms: ["rust"],
+      phrases: ["error handling"],
+      excludeTerms: ["unsafe"],
+      sites: ["docs.rs"],
+      excludeSites: ["reddit.com"],
+      filetypes: ["pdf"],
+      after: "2020-01-01",
+      before: "2023-06-01",
+    });
+    expect(hasOperators(parsed)).toBe(true);
+  });
+
+  it("keeps unknown operators, URLs and invalid dates as terms", () => {
+    const parsed = parseSearchQuery("intitle:rust https://example.com after:yesterday");
+    expect(parsed.terms).toEqual(["intitle:rust", "https://example.com", "after:yesterday"]);
+    expect(parsed.after).toBeUndefined();
+    expect(hasOperators(parsed)).toBe(false);
+  });
+
+  it("treats a negated phrase as an excluded term", () => {
+    expect(parseSearchQuery('rust -"async std"').excludeTerms).toEqual(["async std"]);
+  });
+
+  it("falls back to the raw query when only operators were given", () => {
+    expect(operatorFreeQuery(parseSearchQuery('rust "book" site:docs.rs'), "x")).toBe("rust book");
+    expect(operatorFreeQuery(parseSearchQuery("site:docs.rs"), "site:docs.rs")).toBe("site:docs.rs");
+  });
+});
+
+describe("buildEngineQuery", () => {
+  const parsed = parseSearchQuery(
+    'rust "async book" -"tokio runtime" site:docs.rs site:crates.io filetype:pdf after:2021-03-04 before:2024'
+  );
+
+  it("writes every operator inline for the full dialect", () => {
+    expect(buildEngineQuery(parsed, { dialect: "full" })).toEqual({
+      text: 'rust "async book" -"tokio runtime" site:docs.rs OR site:crates.io filetype:pdf after:2021-03-04 before:2024-01-01',
+      params: {},
+      page: 0,
+    });
+  });
+
+  it("leaves dates to the post-hoc filter by default", () => {
+    expect(buildEngineQuery(parsed, {}).text).toBe(
+      'rust "async book" -"tokio runtime" site:docs.rs OR site:crates.io filetype:pdf'
+    );
+  });
+
+  it("writes file types as mime: for yandex", () => {
+    expect(buildEngineQuery(parsed, { dialect: "yandex" }).text).toContain("mime:pdf");
+  });
+
+  it("turns dates into year params for scholar", () => {
+    const eq = buildEngineQuery(parsed, { dialect: "scholar" });
+    expect(eq.text).not.toContain("filetype:");
+    expect(eq.params).toEqual({ as_ylo: "2021", as_yhi: "2024" });
+  });
+
+  it("sends only terms and phrases for the plain dialect", () => {
+    expect(buildEngineQuery(parsed, { dialect: "plain" }).text).toBe('rust "async book"');
+  });
+});
+
+describe("engineQueryKey", () => {
+  it("normalizes the text and appends sorted params and the page", () => {
+    expect(engineQueryKey({ text: "  Rust   Async ", params: { b: "2", a: "1" }, page: 2 })).toBe(
+      "rust async a=1 b=2 page=2"
+    );
+    expect(engineQueryKey({ text: "rust", params: {}, page: 0 })).toBe("rust");
+  });
+});
+
+describe("matchesOperators", () => {
+  it("matches sites on the host, its subdomains and an optional path", () => {
+    const parsed = parseSearchQuery("site:rust-lang.org/learn");
+    expect(matchesOperators(doc("https://www.rust-lang.org/learn/get-started"), parsed)).toBe(true);
+    expect(matchesOperators(doc("https://doc.rust-lang.org/learn"), parsed)).toBe(true);
+    expect(matchesOperators(doc("https://rust-lang.org/tools"), parsed)).toBe(false);
+    expect(matchesOperators(doc("https://notrust-lang.org/learn"), parsed)).toBe(false);
+  });
+
+  it("drops excluded sites and results without the file type", () => {
+    expect(matchesOperators(doc("https://old.reddit.com/r/rust"), parseSearchQuery("rust -site:reddit.com"))).toBe(false);
+    const pdf = parseSearchQuery("rust filetype:pdf");
+    expect(matchesOperators(doc("https://example.com/Guide.PDF"), pdf)).toBe(true);
+    expect(matchesOperators(doc("https://example.com/guide.html"), pdf)).toBe(false);
+  });
+
+  it("excludes terms only as whole words", () => {
+    const parsed = parseSearchQuery("rust -go");
+    expect(matchesOperators(doc("https://a.com", { snippet: "Rust vs Go" }), parsed)).toBe(false);
+    expect(matchesOperators(doc("https://a.com", { snippet: "Rust on google cloud" }), parsed)).toBe(true);
+  });
+
+  it("applies date bounds only to dated results", () => {
+    const parsed = parseSearchQuery("rust after:2022 before:2023");
+    expect(matchesOperators(doc("https://a.com", { date: "2022-06-01" }), parsed)).toBe(true);
+    expect(matchesOperators(doc("https://a.com", { date: "2023-01-01" }), parsed)).toBe(false);
+    expect(matchesOperators(doc("https://a.com", { date: "2021-12-31" }), parsed)).toBe(false);
+    expect(matchesOperators(doc("https://a.com"), parsed)).toBe(true);
+    expect(matchesOperators(doc("https://a.com", { date: "3 days ago" }), parsed)).toBe(true);
+  });
+
+  it("rejects unparseable URLs only when a site or file type is required", () => {
+    expect(matchesOperators(doc("not a url"), parseSearchQuery("rust -go"))).toBe(true);
+    expect(matchesOperators(doc("not a url"), parseSearchQuery("site:docs.rs"))).toBe(false);
+  });
+});
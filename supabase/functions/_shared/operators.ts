@@ -0,0 +1,211 @@
+// ─── Query Operators ────────────────────────────────────────────────
+// Parses site:, -site:, -term, "exact phrase", filetype:/ext: and
+// before:/after: out of the raw query. Each engine receives the operators
+// in its own dialect, and since not every engine honours them the same
+// filters are enforced again on the merged list (see matchesOperators).
+
+export function normalizeQuery(q: string): string {
+  return q.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export interface ParsedQuery {
+  terms: string[];
+  phrases: string[];
+  excludeTerms: string[];
+  sites: string[];
+  excludeSites: string[];
+  filetypes: string[];
+  after?: string;                             // YYYY-MM-DD, inclusive
+  before?: string;                            // YYYY-MM-DD, exclusive
+}
+
+/**
+ * How an engine expects operators to be written:
+ * - full:     everything inline, including after:/before: (Google, Google News)
+ * - standard: site:, -term, "phrase", filetype: inline; dates only post-hoc
+ * - yandex:   like standard, but file types are written mime:pdf
+ * - scholar:  like standard, dates become as_ylo / as_yhi year params
+ * - plain:    free text and phrases only (e.g. Elasticsearch)
+ */
+export type QueryDialect = "full" | "standard" | "yandex" | "scholar" | "plain";
+
+export interface EngineQuery {
+  text: string;
+  params: Record<string, string>;             // merged into the engine's extraParams
+  page: number;                               // 0-based result page
+}
+
+const OPERATOR_TOKEN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+/** Accepts YYYY, YYYY-MM or YYYY-MM-DD (also with slashes); returns YYYY-MM-DD */
+function parseOperatorDate(value: string): string | undefined {
+  const m = value.match(/^(\d{4})(?:[-/](\d{1,2}))?(?:[-/](\d{1,2}))?$/);
+  if (!m) return undefined;
+  const [, y, mo = "1", d = "1"] = m;
+  const date = new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d)));
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+}
+
+export function parseSearchQuery(raw: string): ParsedQuery {
+  const parsed: ParsedQuery = {
+    terms: [],
+    phrases: [],
+    excludeTerms: [],
+    sites: [],
+    excludeSites: [],
+    filetypes: [],
+  };
+
+  for (const match of raw.matchAll(OPERATOR_TOKEN)) {
+    const [token, minus, rawOp, quoted, bare] = match;
+    const negated = minus === "-";
+    const op = rawOp?.toLowerCase();
+    const value = (quoted ?? bare ?? "").trim();
+
+    if (op && value) {
+      if (op === "site") {
+        const site = value.toLowerCase().replace(/^https?:\/\//, "").replace(/^www\./, "").replace(/\/+$/, "");
+        (negated ? parsed.excludeSites : parsed.sites).push(site);
+        continue;
+      }
+      if ((op === "filetype" || op === "ext") && !negated) {
+        parsed.filetypes.push(value.toLowerCase().replace(/^\./, ""));
+        continue;
+      }
+      if ((op === "before" || op === "after") && !negated) {
+        const date = parseOperatorDate(value);
+        if (date) {
+          parsed[op] = date;
+          continue;
+        }
+      }
+      // Unknown operator (or a URL like https://…) — keep it as a plain term
+      parsed.terms.push(token);
+      continue;
+    }
+
+    if (quoted !== undefined) {
+      if (value) (negated ? parsed.excludeTerms : parsed.phrases).push(value);
+      continue;
+    }
+    if (negated && value) {
+      parsed.excludeTerms.push(value);
+      continue;
+    }
+    if (token.trim()) parsed.terms.push(token);
+  }
+
+  return parsed;
+}
+
+export function hasOperators(parsed: ParsedQuery): boolean {
+  return (
+    parsed.excludeTerms.length > 0 ||
+    parsed.sites.length > 0 ||
+    parsed.excludeSites.length > 0 ||
+    parsed.filetypes.length > 0 ||
+    !!parsed.after ||
+    !!parsed.before
+  );
+}
+
+/** The query without operators — what the learned and local indexes match on */
+export function operatorFreeQuery(parsed: ParsedQuery, raw: string): string {
+  const text = [...parsed.terms, ...parsed.phrases].join(" ").trim();
+  return text || raw;
+}
+
+function quoteIfSpaced(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+/** Joins alternatives Google-style: "site:a OR site:b" */
+function anyOf(values: string[]): string[] {
+  return values.length > 0 ? [values.join(" OR ")] : [];
+}
+
+export function buildEngineQuery(parsed: ParsedQuery, config: { dialect?: QueryDialect }): EngineQuery {
+  const dialect = config.dialect ?? "standard";
+  const parts = [...parsed.terms, ...parsed.phrases.map((p) => `"${p}"`)];
+  const params: Record<string, string> = {};
+
+  if (dialect !== "plain") {
+    parts.push(...parsed.excludeTerms.map((t) => `-${quoteIfSpaced(t)}`));
+    parts.push(...anyOf(parsed.sites.map((s) => `site:${s}`)));
+    parts.push(...parsed.excludeSites.map((s) => `-site:${s}`));
+  }
+  if (dialect === "full" || dialect === "standard") {
+    parts.push(...anyOf(parsed.filetypes.map((f) => `filetype:${f}`)));
+  } else if (dialect === "yandex") {
+    parts.push(...anyOf(parsed.filetypes.map((f) => `mime:${f}`)));
+  }
+  if (dialect === "full") {
+    if (parsed.after) parts.push(`after:${parsed.after}`);
+    if (parsed.before) parts.push(`before:${parsed.before}`);
+  } else if (dialect === "scholar") {
+    if (parsed.after) params.as_ylo = parsed.after.slice(0, 4);
+    if (parsed.before) params.as_yhi = parsed.before.slice(0, 4);
+  }
+
+  return { text: parts.join(" "), params, page: 0 };
+}
+
+/** Cache / fixture key: normalized text plus any operator params and the page */
+export function engineQueryKey(eq: EngineQuery): string {
+  const params = Object.keys(eq.params)
+    .sort()
+    .map((k) => `${k}=${eq.params[k]}`);
+  if (eq.page > 0) params.push(`page=${eq.page}`);
+  return [normalizeQuery(eq.text), ...params].join(" ");
+}
+
+function siteMatches(url: URL, site: string): boolean {
+  const host = url.hostname.toLowerCase().replace(/^www\./, "");
+  const slash = site.indexOf("/");
+  const siteHost = slash === -1 ? site : site.slice(0, slash);
+  const sitePath = slash === -1 ? "" : site.slice(slash);
+  if (host !== siteHost && !host.endsWith(`.${siteHost}`)) return false;
+  return !sitePath || url.pathname.toLowerCase().startsWith(sitePath);
+}
+
+function containsTerm(text: string, term: string): boolean {
+  const escaped = term.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, "u").test(text);
+}
+
+/**
+ * Post-hoc operator check for one document. Phrases are not enforced here:
+ * engines match them against the full page, and snippets are truncated.
+ * Date bounds only apply to documents that carry a parseable date.
+ */
+export function matchesOperators(doc: { url: string; title: string; snippet: string; date?: string }, parsed: ParsedQuery): boolean {
+  let url: URL;
+  try {
+    url = new URL(doc.url);
+  } catch {
+    return parsed.sites.length === 0 && parsed.filetypes.length === 0;
+  }
+
+  if (parsed.sites.length > 0 && !parsed.sites.some((s) => siteMatches(url, s))) return false;
+  if (parsed.excludeSites.some((s) => siteMatches(url, s))) return false;
+
+  if (parsed.filetypes.length > 0) {
+    const path = url.pathname.toLowerCase();
+    if (!parsed.filetypes.some((f) => path.endsWith(`.${f}`))) return false;
+  }
+
+  if (parsed.excludeTerms.length > 0) {
+    const text = `${doc.title} ${doc.snippet} ${doc.url}`.toLowerCase();
+    if (parsed.excludeTerms.some((t) => containsTerm(text, t))) return false;
+  }
+
+  if ((parsed.after || parsed.before) && doc.date) {
+    const time = Date.parse(doc.date);
+    if (!Number.isNaN(time)) {
+      if (parsed.after && time < Date.parse(parsed.after)) return false;
+      if (parsed.before && time >= Date.parse(parsed.before)) return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { mergeRelated } from "./related.ts";
+
+const key = (r: { query: string }) => r.query.toLowerCase();
+const q = (...queries: string[]) => queries.map((query) => ({ query }));
+
+describe("mergeRelated", () => {
+  it("puts what more engines suggest first, then keeps first-seen order", () => {
+    const merged = mergeRelated(
+      [q("tokio", "async book", "futures"), q("Async Book", "smol"), undefined, q("smol", "async book")],
+      key,
+      10
+    );
+    expect(merged.map((r) => r.query)).toEqual(["async book", "smol", "tokio", "futures"]);
+  });
+
+  it("keeps the first engine's wording and extra fields", () => {
+    const [first] = mergeRelated([[{ query: "Tokio", image: "t.png" }], q("tokio")], key, 10);
+    expect(first).toEqual({ query: "Tokio", image: "t.png" });
+  });
+
+  it("counts an engine once per item", () => {
+    const merged = mergeRelated([q("a", "A", "a"), q("b"), q("b")], key, 10);
+    expect(merged.map((r) => r.query)).toEqual(["b", "a"]);
+  });
+
+  it("caps the list", () => {
+    expect(mergeRelated([q("a", "b", "c")], key, 2)).toHaveLength(2);
+    expect(mergeRelated([], key, 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Merges list-valued rich blocks (related searches, "People also ask",
+ * "People also search for") across engines: the union of every engine's
+ * list, deduplicated on keyOf. Items more engines suggest come first, ties
+ * keep the order they were first seen in (engine order, then position),
+ * and at most `max` are kept. Each engine counts once per item, even if it
+ * lists the item twice.
+ */
+export function mergeRelated<T>(
+  lists: (T[] | undefined)[],
+  keyOf: (item: T) => string,
+  max: number
+): T[] {
+  const seen = new Map<string, { item: T; engines: number; order: number }>();
+  for (const list of lists) {
+    const counted = new Set<string>();
+    for (const item of list ?? []) {
+      const key = keyOf(item);
+      if (counted.has(key)) continue;
+      counted.add(key);
+      const entry = seen.get(key);
+      if (entry) entry.engines++;
+      else seen.set(key, { item, engines: 1, order: seen.size });
+    }
+  }
+  return [...seen.values()]
+    .sort((a, b) => b.engines - a.engines || a.order - b.order)
+    .slice(0, max)
+    .map((e) => e.item);
+}
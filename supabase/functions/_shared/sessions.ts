@@ -0,0 +1,179 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { MergedDoc } from "./aggregation.ts";
+import { canonicalUrl } from "./url.ts";
+
+/**
+ * Logged search sessions rebuilt for offline use (evaluate-aggregation,
+ * train-ltr): each session's per-engine rankings from search_results, plus
+ * the relevance of every document with feedback.
+ *
+ * Relevance is the importance σ(d) from the Beg & Ahmad (2007) 7-tuple,
+ * computed as in compute-sqm from the best feedback row per document.
+ */
+
+type ServiceClient = ReturnType<typeof createClient>;
+
+interface ResultRow {
+  id: string;
+  search_history_id: string;
+  url: string;
+  title: string;
+  snippet: string | null;
+  engine: string;
+  original_rank: number;
+  aggregated_rank: number | null;
+  source_score: number | null;
+}
+
+interface FeedbackRow {
+  search_result_id: string;
+  click_order: number | null;
+  dwell_time_ms: number | null;
+  page_size_bytes: number | null;
+  copy_paste_chars: number | null;
+  printed: boolean | null;
+  saved: boolean | null;
+  bookmarked: boolean | null;
+  emailed: boolean | null;
+}
+
+export interface FeedbackWeights {
+  weight_t: number;
+  weight_p: number;
+  weight_s: number;
+  weight_b: number;
+  weight_e: number;
+  weight_c: number;
+  reading_speed: number;
+}
+
+export interface LoggedDoc extends MergedDoc {
+  /** Best aggregated_rank the doc was shown at */
+  shownRank: number;
+}
+
+export interface LoggedSession {
+  id: string;
+  docs: LoggedDoc[];
+  /** canonicalUrl() key → σ(d), only for docs with positive importance */
+  relevance: Map<string, number>;
+}
+
+/**
+ * Loads the user's latest `limit` sessions. Sessions without any feedback
+ * are dropped, since there is nothing to learn from or score against.
+ */
+export async function loadLoggedSessions(
+  supabase: ServiceClient,
+  userId: string,
+  limit: number,
+  weights: FeedbackWeights
+): Promise<LoggedSession[]> {
+  const { data: history } = await supabase
+    .from("search_history")
+    .select("id")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  const historyIds = ((history || []) as { id: string }[]).map((h) => h.id);
+  if (historyIds.length === 0) return [];
+
+  const { data: resultRows } = await supabase
+    .from("search_results")
+    .select("id, search_history_id, url, title, snippet, engine, original_rank, aggregated_rank, source_score")
+    .in("search_history_id", historyIds);
+
+  const rows = (resultRows || []) as ResultRow[];
+  if (rows.length === 0) return [];
+
+  const { data: feedbackRows } = await supabase
+    .from("user_feedback")
+    .select("*, page_size_bytes")
+    .in("search_result_id", rows.map((r) => r.id))
+    .eq("user_id", userId);
+
+  const fbMap = new Map(((feedbackRows || []) as FeedbackRow[]).map((f) => [f.search_result_id, f]));
+
+  const bySession = new Map<string, ResultRow[]>();
+  for (const row of rows) {
+    if (!bySession.has(row.search_history_id)) bySession.set(row.search_history_id, []);
+    bySession.get(row.search_history_id)!.push(row);
+  }
+
+  const sessions: LoggedSession[] = [];
+  for (const [id, sessionRows] of bySession) {
+    const relevance = sessionRelevance(sessionRows, fbMap, weights);
+    if (relevance.size === 0) continue;
+    sessions.push({ id, docs: rebuildDocs(sessionRows), relevance });
+  }
+  return sessions;
+}
+
+/** Deduplicates a session's rows into docs carrying every engine's rank */
+function rebuildDocs(rows: ResultRow[]): LoggedDoc[] {
+  const docs = new Map<string, LoggedDoc>();
+  for (const row of rows) {
+    const key = canonicalUrl(row.url);
+    let doc = docs.get(key);
+    if (!doc) {
+      doc = { url: row.url, title: row.title, snippet: row.snippet || "", engines: [], shownRank: Infinity };
+      docs.set(key, doc);
+    }
+    if (row.aggregated_rank !== null) doc.shownRank = Math.min(doc.shownRank, row.aggregated_rank);
+    const existing = doc.engines.find((e) => e.engine === row.engine);
+    if (!existing) {
+      doc.engines.push({
+        engine: row.engine,
+        rank: row.original_rank,
+        ...(row.source_score !== null ? { score: row.source_score } : {}),
+      });
+    } else {
+      existing.rank = Math.min(existing.rank, row.original_rank);
+    }
+  }
+  return [...docs.values()];
+}
+
+/** σ(d) per canonical URL, from the best feedback row per document */
+function sessionRelevance(
+  rows: ResultRow[],
+  fbMap: Map<string, FeedbackRow>,
+  weights: FeedbackWeights
+): Map<string, number> {
+  const relevance = new Map<string, number>();
+  const sessionFeedback = rows.flatMap((r) => fbMap.get(r.id) ?? []);
+  if (sessionFeedback.length === 0) return relevance;
+
+  const cTotal = sessionFeedback.reduce((sum, f) => sum + (f.copy_paste_chars ?? 0), 0);
+  const readingSpeed = weights.reading_speed || 10; // bytes per second
+
+  const bestByUrl = new Map<string, FeedbackRow>();
+  for (const row of rows) {
+    const fb = fbMap.get(row.id);
+    if (!fb) continue;
+    const key = canonicalUrl(row.url);
+    const best = bestByUrl.get(key);
+    if (!best || (fb.click_order ?? 999) < (best.click_order ?? 999)) bestByUrl.set(key, fb);
+  }
+
+  for (const [url, fb] of bestByUrl) {
+    const V = fb.click_order ? 1 / Math.pow(2, fb.click_order - 1) : 0;
+    const pageSizeBytes = fb.page_size_bytes ?? 0;
+    const tMax = pageSizeBytes > 0 ? (pageSizeBytes / readingSpeed) * 1000 : 0;
+    const T = tMax > 0 ? Math.min((fb.dwell_time_ms ?? 0) / tMax, 1.0) : 0;
+    const C = cTotal > 0 ? (fb.copy_paste_chars ?? 0) / cTotal : 0;
+
+    // wV is fixed at 1 (paper rule)
+    const importance =
+      V +
+      weights.weight_t * T +
+      weights.weight_p * (fb.printed ? 1 : 0) +
+      weights.weight_s * (fb.saved ? 1 : 0) +
+      weights.weight_b * (fb.bookmarked ? 1 : 0) +
+      weights.weight_e * (fb.emailed ? 1 : 0) +
+      weights.weight_c * C;
+    if (importance > 0) relevance.set(url, importance);
+  }
+  return relevance;
+}
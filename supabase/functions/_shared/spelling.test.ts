@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { reconcileSpelling, type SpellingFix } from "./spelling.ts";
+
+const engine = (name: string, spelling?: SpellingFix, error?: string) => ({
+  engine: name,
+  error,
+  rich: spelling ? { spelling } : {},
+});
+
+describe("reconcileSpelling", () => {
+  it("is unanimous when every engine that answered reports the same correction", () => {
+    const result = reconcileSpelling(
+      [
+        engine("google", { query: "rust async", auto: true }),
+        engine("bing", { query: "Rust  Async", auto: false }),
+        engine("yandex", undefined, "timeout"),
+      ],
+      "rust asnyc"
+    );
+    expect(result).toEqual({
+      query: "rust async",
+      engines: ["google", "bing"],
+      auto_corrected: ["google"],
+      unanimous: true,
+    });
+  });
+
+  it("counts engines that answered without a correction as dissent", () => {
+    const result = reconcileSpelling(
+      [engine("google", { query: "rust async", auto: true }), engine("bing"), engine("duckduckgo")],
+      "rust asnyc"
+    );
+    expect(result?.query).toBe("rust async");
+    expect(result?.unanimous).toBe(false);
+  });
+
+  it("picks the correction most engines report, then the one more engines auto-applied", () => {
+    const result = reconcileSpelling(
+      [
+        engine("google", { query: "rust sync", auto: false }),
+        engine("bing", { query: "rust async", auto: true }),
+        engine("brave", { query: "rust async", auto: false }),
+        engine("searxng", { query: "rust sync", auto: false }),
+        engine("yandex", { query: "rust sync", auto: false }),
+      ],
+      "rust asnyc"
+    );
+    expect(result?.query).toBe("rust sync");
+    expect(result?.unanimous).toBe(false);
+
+    const tie = reconcileSpelling(
+      [engine("google", { query: "rust sync", auto: false }), engine("bing", { query: "rust async", auto: true })],
+      "rust asnyc"
+    );
+    expect(tie?.query).toBe("rust async");
+  });
+
+  it("trusts a single engine when it is the only one that answered", () => {
+    expect(reconcileSpelling([engine("google", { query: "rust async", auto: true })], "rust asnyc")?.unanimous).toBe(
+      true
+    );
+  });
+
+  it("ignores corrections that only change case or spacing", () => {
+    expect(reconcileSpelling([engine("google", { query: " Rust  Async ", auto: false })], "rust async")).toBeNull();
+    expect(reconcileSpelling([engine("google"), engine("bing")], "rust async")).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import { normalizeQuery } from "./operators.ts";
+
+/**
+ * Reconciles the engines' spelling corrections into multi-search's "did
+ * you mean". Every engine that corrected the query casts one vote;
+ * corrections are compared normalized and the one most engines report
+ * wins. It is `unanimous` (the client may re-run the search with it) only
+ * when every engine that answered reported that same correction: an
+ * engine that answered without correcting the query counts as dissent.
+ */
+
+/** An engine's spelling correction of the query */
+export interface SpellingFix {
+  query: string;
+  auto: boolean;                              // the engine already served results for it ("Showing results for")
+}
+
+export interface DidYouMean {
+  query: string;
+  engines: string[];                          // engines that reported this correction
+  auto_corrected: string[];                   // those already serving results for it
+  unanimous: boolean;
+}
+
+export function reconcileSpelling(
+  engineResults: { engine: string; error?: string; rich?: { spelling?: SpellingFix } }[],
+  query: string
+): DidYouMean | null {
+  const original = normalizeQuery(query);
+  const votes = new Map<string, DidYouMean>();
+  for (const er of engineResults) {
+    const fix = er.rich?.spelling;
+    if (!fix) continue;
+    const key = normalizeQuery(fix.query);
+    if (!key || key === original) continue;
+    if (!votes.has(key)) votes.set(key, { query: fix.query, engines: [], auto_corrected: [], unanimous: false });
+    const vote = votes.get(key)!;
+    vote.engines.push(er.engine);
+    if (fix.auto) vote.auto_corrected.push(er.engine);
+  }
+  if (votes.size === 0) return null;
+
+  const [best] = [...votes.values()].sort(
+    (a, b) => b.engines.length - a.engines.length || b.auto_corrected.length - a.auto_corrected.length
+  );
+  const answered = engineResults.filter((er) => !er.error).length;
+  best.unanimous = votes.size === 1 && best.engines.length === answered;
+  return best;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { canonicalHost, canonicalUrl } from "./url.ts";
+
+describe("canonicalUrl", () => {
+  it("ignores scheme, fragment, default port and trailing slashes", () => {
+    const key = canonicalUrl("https://example.com/docs/");
+    expect(key).toBe("example.com/docs");
+    expect(canonicalUrl("http://example.com:80/docs#intro")).toBe(key);
+    expect(canonicalUrl("HTTPS://Example.COM/Docs//")).toBe(key);
+    expect(canonicalUrl("https://example.com:8443/docs")).toBe("example.com:8443/docs");
+  });
+
+  it("drops www. / m. / mobile. / amp. host prefixes, but not a bare domain", () => {
+    for (const host of ["www", "www2", "m", "mobile", "amp"]) {
+      expect(canonicalUrl(`https://${host}.example.com/a`)).toBe("example.com/a");
+    }
+    expect(canonicalUrl("https://m.com/a")).toBe("m.com/a");
+    expect(canonicalUrl("https://docs.example.com/a")).toBe("docs.example.com/a");
+  });
+
+  it("removes tracking parameters and sorts the rest", () => {
+    expect(canonicalUrl("https://example.com/a?utm_source=x&b=2&gclid=1&a=1&UTM_Medium=y&fbclid=z")).toBe(
+      "example.com/a?a=1&b=2"
+    );
+  });
+
+  it("resolves AMP variants to the page they serve", () => {
+    const key = "example.com/news/story";
+    expect(canonicalUrl("https://www.google.com/amp/s/example.com/news/story")).toBe(key);
+    expect(canonicalUrl("https://example-com.cdn.ampproject.org/c/s/example.com/news/story")).toBe(key);
+    expect(canonicalUrl("https://example.com/news/story/amp")).toBe(key);
+    expect(canonicalUrl("https://amp.example.com/news/story?amp=1")).toBe(key);
+    expect(canonicalUrl("https://example.com/news/story?outputType=amp")).toBe(key);
+    expect(canonicalUrl("https://example.com/news/story.amp.html")).toBe("example.com/news/story.html");
+  });
+
+  it("keeps non-AMP Google paths and non-web URLs", () => {
+    expect(canonicalUrl("https://www.google.com/maps/place")).toBe("google.com/maps/place");
+    expect(canonicalUrl("mailto:someone@example.com")).toBe("mailto:someone@example.com");
+    expect(canonicalUrl("not a url/#x")).toBe("not a url");
+  });
+});
+
+describe("canonicalHost", () => {
+  it("accepts URLs and bare domains", () => {
+    expect(canonicalHost("https://www.Example.com:8080/path?q=1")).toBe("example.com");
+    expect(canonicalHost("m.example.org")).toBe("example.org");
+  });
+});
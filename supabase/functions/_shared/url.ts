@@ -0,0 +1,86 @@
+/**
+ * URL canonicalization shared by every function that decides whether two
+ * result URLs are the same document (multi-search deduplication and the
+ * crawl queue, update-learning-index, compute-sqm, logged-session replay).
+ *
+ * canonicalUrl() returns a comparison key, not a fetchable URL: callers
+ * keep the original URL for display, storage and crawling. The key drops
+ * what varies between engines for the same page:
+ *   - scheme, fragment, default port and trailing slashes
+ *   - www. / m. / mobile. / amp. host prefixes
+ *   - tracking parameters (utm_*, gclid, fbclid, …); the rest are sorted
+ *   - AMP variants: Google AMP cache and cdn.ampproject.org wrappers,
+ *     a trailing /amp segment, .amp.html, and amp / outputType=amp params
+ * and is lowercased throughout.
+ *
+ * The browser extension's normalizeUrl() (extension/background.js) applies
+ * the same rules to match opened tabs to results; keep the two in sync.
+ */
+
+const HOST_PREFIXES = /^(?:www\d*|m|mobile|amp)\./;
+const TRACKING_PARAMS = new Set([
+  "gclid", "gclsrc", "dclid", "fbclid", "msclkid", "yclid", "igshid",
+  "mc_cid", "mc_eid", "_ga", "_gl", "ref_src", "amp",
+]);
+/** Google AMP cache paths: /amp/s/<host>/<path> (https) or /amp/<host>/<path> */
+const GOOGLE_AMP_PATH = /^\/amp\/(s\/)?(.+)$/;
+/** AMP project CDN paths: /c/s/<host>/<path>, also /v/ (viewer) and /i/ (images) */
+const AMP_CDN_PATH = /^\/[cvi]\/(s\/)?(.+)$/;
+
+const fallbackKey = (url: string) => url.trim().replace(/#.*$/, "").replace(/\/+$/, "").toLowerCase();
+
+/** Resolves AMP cache wrappers to the URL of the page they serve */
+function unwrapAmpCache(u: URL): URL {
+  const host = u.hostname.toLowerCase();
+  const match = host.endsWith(".cdn.ampproject.org")
+    ? u.pathname.match(AMP_CDN_PATH)
+    : /^(www\.)?google\.[a-z.]+$/.test(host)
+      ? u.pathname.match(GOOGLE_AMP_PATH)
+      : null;
+  if (!match) return u;
+  try {
+    return new URL(`${match[1] ? "https" : "http"}://${match[2]}${u.search}`);
+  } catch {
+    return u;
+  }
+}
+
+export function canonicalUrl(url: string): string {
+  let u: URL;
+  try {
+    u = unwrapAmpCache(new URL(url.trim()));
+  } catch {
+    return fallbackKey(url);
+  }
+  if (u.protocol !== "http:" && u.protocol !== "https:") return fallbackKey(url);
+
+  const fullHost = u.hostname.toLowerCase();
+  const stripped = fullHost.replace(HOST_PREFIXES, "");
+  const host = stripped.includes(".") ? stripped : fullHost; // m.com stays m.com
+  const port = u.port ? `:${u.port}` : ""; // URL already drops the default port
+
+  const path = u.pathname
+    .replace(/\.amp\.html?$/i, ".html")
+    .replace(/\/amp\/?$/i, "")
+    .replace(/\/+$/, "");
+
+  const params = [...u.searchParams.entries()]
+    .filter(([name, value]) => {
+      const key = name.toLowerCase();
+      if (key.startsWith("utm_") || TRACKING_PARAMS.has(key)) return false;
+      return !(key === "outputtype" && value.toLowerCase() === "amp");
+    })
+    .sort(([a, av], [b, bv]) => a.localeCompare(b) || av.localeCompare(bv));
+  const search = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : "";
+
+  return `${host}${port}${path}${search}`.toLowerCase();
+}
+
+/**
+ * The host part of canonicalUrl(): lowercase, without www. / m. / mobile. /
+ * amp. prefixes or port. Also accepts a bare domain ("www.example.com").
+ */
+export function canonicalHost(urlOrDomain: string): string {
+  const value = urlOrDomain.trim();
+  return canonicalUrl(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`).split(/[/?:]/)[0];
+}
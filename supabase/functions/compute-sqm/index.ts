@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { canonicalUrl } from "../_shared/url.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -129,7 +130,7 @@ Deno.serve(async (req) => {
     // Group results by URL (dedupe across engines)
     const urlMap = new Map<string, { url: string; resultIds: string[]; engineRanks: Map<string, number> }>();
     for (const sr of searchResults) {
-      const normalized = sr.url.replace(/\/+$/, "").toLowerCase();
+      const normalized = canonicalUrl(sr.url);
       const existing = urlMap.get(normalized);
       if (existing) {
         existing.resultIds.push(sr.id);
@@ -197,7 +198,7 @@ Deno.serve(async (req) => {
     docImportance.sort((a, b) => b.importance - a.importance);
     const preferenceRanks = new Map<string, number>();
     docImportance.forEach((d, i) => {
-      preferenceRanks.set(d.url.replace(/\/+$/, "").toLowerCase(), i + 1);
+      preferenceRanks.set(canonicalUrl(d.url), i + 1);
     });
 
     // 6. Compute Spearman ρ for each engine
@@ -222,21 +223,21 @@ Deno.serve(async (req) => {
       );
       const engineRankMap = new Map<string, number>();
       engineSorted.forEach((d, i) => {
-        engineRankMap.set(d.url.replace(/\/+$/, "").toLowerCase(), i + 1);
+        engineRankMap.set(canonicalUrl(d.url), i + 1);
       });
 
       // Assign preference ranks (1-based among this subset)
       const prefSorted = [...docsInEngine].sort((a, b) => b.importance - a.importance);
       const prefRankMap = new Map<string, number>();
       prefSorted.forEach((d, i) => {
-        prefRankMap.set(d.url.replace(/\/+$/, "").toLowerCase(), i + 1);
+        prefRankMap.set(canonicalUrl(d.url), i + 1);
       });
 
       // Spearman ρ = 1 - 6Σd² / (n(n²-1))
       const nDocs = docsInEngine.length;
       let sumD2 = 0;
       for (const doc of docsInEngine) {
-        const key = doc.url.replace(/\/+$/, "").toLowerCase();
+        const key = canonicalUrl(doc.url);
         const eRank = engineRankMap.get(key) ?? nDocs;
         const pRank = prefRankMap.get(key) ?? nDocs;
         sumD2 += (eRank - pRank) ** 2;
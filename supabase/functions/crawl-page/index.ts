@@ -1,4 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { simhash } from "../_shared/duplicates.ts";
+import { canonicalUrl } from "../_shared/url.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -196,6 +198,7 @@ Deno.serve(async (req) => {
     for (const item of queueItems) {
       try {
         const url = item.url;
+        const urlKey = item.url_key || canonicalUrl(url);
         const domain = extractDomain(url);
 
         // 2. Check if already crawled with recent content
@@ -240,6 +243,7 @@ Deno.serve(async (req) => {
             await supabase.from("web_pages").upsert(
               {
                 url,
+                url_key: urlKey,
                 domain,
                 title: item.title || "",
                 extracted_text: item.snippet || "",
@@ -293,8 +297,9 @@ Deno.serve(async (req) => {
 
         const wordCount = extractedText.split(/\s+/).filter(Boolean).length;
 
-        // 5. Content hash for dedup
+        // 5. Content hash for dedup, SimHash for near-duplicate clustering
         const contentHash = await sha256(extractedText);
+        const contentSimhash = simhash(extractedText);
 
         // Skip embedding if content hasn't changed
         if (existing?.content_hash === contentHash) {
@@ -304,6 +309,8 @@ Deno.serve(async (req) => {
               last_crawled_at: new Date().toISOString(),
               crawl_count: (existing.crawl_count || 0) + 1,
               crawl_status: "crawled",
+              simhash: contentSimhash,
+              url_key: urlKey,
             })
             .eq("id", existing.id);
           await supabase
@@ -321,11 +328,13 @@ Deno.serve(async (req) => {
         // 7. Upsert into web_pages
         const pageData: Record<string, any> = {
           url,
+          url_key: urlKey,
           domain,
           title,
           extracted_text: extractedText,
           meta_description: metaDesc,
           content_hash: contentHash,
+          simhash: contentSimhash,
           word_count: wordCount,
           last_crawled_at: new Date().toISOString(),
           crawl_count: existing ? (existing.crawl_count || 0) + 1 : 1,
@@ -0,0 +1,195 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AGGREGATION_METHODS, rankResults, type RankOptions } from "../_shared/aggregation.ts";
+import { loadLoggedSessions } from "../_shared/sessions.ts";
+import { canonicalUrl } from "../_shared/url.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+/**
+ * Offline evaluation of the rank aggregation methods.
+ *
+ * Replays the caller's logged search sessions: each session's per-engine
+ * rankings are rebuilt from search_results.original_rank, every method in
+ * rankResults() re-aggregates them, and the resulting order is scored
+ * against relevance derived from the user's feedback on that session.
+ *
+ * Relevance of a document is its importance σ(d) from the Beg & Ahmad (2007)
+ * 7-tuple (same formula as compute-sqm); documents without feedback count
+ * as non-relevant. Sessions without any feedback are skipped.
+ *
+ * Metrics (averaged over sessions):
+ *   NDCG@k — DCG = Σ σ(d_i) / log2(i + 1), normalized by the ideal order
+ *   MRR    — 1 / rank of the first document with feedback
+ *   P@k    — fraction of the top k with feedback
+ *
+ * The "logged" row scores the order the user was actually shown
+ * (search_results.aggregated_rank), as a baseline. The "ltr" row uses the
+ * user's current model, which was trained on these same sessions, so its
+ * score is in-sample and optimistic.
+ */
+
+const DEFAULT_SESSIONS = 50;
+const MAX_SESSIONS = 200;
+const DEFAULT_K = 10;
+
+interface MethodScore {
+  method: string;
+  ndcg: number;
+  mrr: number;
+  precision: number;
+  sessions: number;
+}
+
+// ─── Metrics ────────────────────────────────────────────────────────
+
+function dcg(gains: number[], k: number): number {
+  return gains.slice(0, k).reduce((sum, g, i) => sum + g / Math.log2(i + 2), 0);
+}
+
+function scoreRanking(urls: string[], relevance: Map<string, number>, k: number) {
+  const gains = urls.map((u) => relevance.get(canonicalUrl(u)) ?? 0);
+  const ideal = [...relevance.values()].sort((a, b) => b - a);
+  const idealDcg = dcg(ideal, k);
+  const firstRelevant = gains.findIndex((g) => g > 0);
+  return {
+    ndcg: idealDcg > 0 ? dcg(gains, k) / idealDcg : 0,
+    mrr: firstRelevant >= 0 ? 1 / (firstRelevant + 1) : 0,
+    precision: gains.slice(0, k).filter((g) => g > 0).length / k,
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceKey);
+
+    // Verify user by calling the Auth REST API directly to avoid local ES256 decoding issues
+    const authResponse = await fetch(`${supabaseUrl}/auth/v1/user`, {
+      headers: {
+        Authorization: authHeader,
+        apikey: Deno.env.get("SUPABASE_ANON_KEY")!,
+      },
+    });
+
+    if (!authResponse.ok) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const user = await authResponse.json();
+    if (!user || !user.id) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { sessions, k, local_kemenization } = await req.json().catch(() => ({}));
+    const sessionLimit = Math.min(Math.max(Math.floor(Number(sessions)) || DEFAULT_SESSIONS, 1), MAX_SESSIONS);
+    const cutoff = Math.min(Math.max(Math.floor(Number(k)) || DEFAULT_K, 1), 100);
+
+    // 1. Fetch user weights
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("weight_t, weight_p, weight_s, weight_b, weight_e, weight_c, reading_speed, rrf_k")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile) {
+      return new Response(JSON.stringify({ error: "Profile not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // 2. Rebuild the latest logged sessions that have feedback
+    const loggedSessions = await loadLoggedSessions(supabase, user.id, sessionLimit, profile);
+
+    // 3. Current SQM (for the biased method)
+    const { data: sqmRows } = await supabase
+      .from("search_quality_measures")
+      .select("engine, sqm_score")
+      .eq("user_id", user.id);
+
+    const sqmScores: Record<string, number> = {};
+    for (const row of sqmRows || []) sqmScores[row.engine] = row.sqm_score;
+
+    // 4. Current LTR model, if one has been trained
+    const { data: ltrRow } = await supabase
+      .from("ltr_models")
+      .select("weights, pairs")
+      .eq("user_id", user.id)
+      .maybeSingle();
+    const rankOptions: RankOptions = {
+      rrfK: profile.rrf_k,
+      localKemenize: local_kemenization === true,
+      ltrModel: ltrRow ? { weights: ltrRow.weights as Record<string, number>, pairs: ltrRow.pairs as number } : null,
+    };
+
+    const methods = [...AGGREGATION_METHODS, "logged"];
+    const totals = new Map<string, MethodScore>(
+      methods.map((method) => [method, { method, ndcg: 0, mrr: 0, precision: 0, sessions: 0 }])
+    );
+
+    // 5. Re-run every method on each session and score it
+    for (const { docs, relevance } of loggedSessions) {
+      const activeEngines = [...new Set(docs.flatMap((d) => d.engines.map((e) => e.engine)))];
+      for (const method of methods) {
+        const urls = method === "logged"
+          ? [...docs].sort((a, b) => a.shownRank - b.shownRank).map((d) => d.url)
+          : rankResults(docs, method, activeEngines, sqmScores, rankOptions).map((d) => d.url);
+        const score = scoreRanking(urls, relevance, cutoff);
+        const total = totals.get(method)!;
+        total.ndcg += score.ndcg;
+        total.mrr += score.mrr;
+        total.precision += score.precision;
+        total.sessions++;
+      }
+    }
+
+    const results = [...totals.values()]
+      .map((t) => ({
+        method: t.method,
+        ndcg: t.sessions > 0 ? t.ndcg / t.sessions : 0,
+        mrr: t.sessions > 0 ? t.mrr / t.sessions : 0,
+        precision: t.sessions > 0 ? t.precision / t.sessions : 0,
+        sessions: t.sessions,
+      }))
+      .sort((a, b) => b.ndcg - a.ndcg);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        sessions_evaluated: loggedSessions.length,
+        k: cutoff,
+        methods: loggedSessions.length > 0 ? results : [],
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("evaluate-aggregation error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
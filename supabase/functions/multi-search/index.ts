@@ -1,4 +1,33 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  AGGREGATION_METHODS,
+  clampDomainCap,
+  clampMmrLambda,
+  clampRrfK,
+  rankResults,
+  sanitizeDomainRules,
+  teamDraftInterleave,
+  type DomainRule,
+  type MergedDoc,
+  type RankOptions,
+} from "../_shared/aggregation.ts";
+import type { LtrModel } from "../_shared/ltr.ts";
+import { clusterNearDuplicates, type PageSignature } from "../_shared/duplicates.ts";
+import {
+  buildEngineQuery,
+  engineQueryKey,
+  hasOperators,
+  matchesOperators,
+  normalizeQuery,
+  operatorFreeQuery,
+  parseSearchQuery,
+  type EngineQuery,
+  type ParsedQuery,
+  type QueryDialect,
+} from "../_shared/operators.ts";
+import { mergeRelated } from "../_shared/related.ts";
+import { reconcileSpelling, type SpellingFix } from "../_shared/spelling.ts";
+import { canonicalHost, canonicalUrl } from "../_shared/url.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -8,11 +37,41 @@ const corsHeaders = {
 
 // ─── Types ──────────────────────────────────────────────────────────
 
-interface SerpResult {
+/** Extra fields only vertical engines (images, news, videos, …) fill in */
+interface VerticalFields {
+  thumbnail?: string;
+  image?: string;                             // full-size image URL (images)
+  source?: string;                            // publisher, channel or merchant
+  duration?: string;                          // videos
+  cited_by?: number;                          // scholar
+  pdf?: string;                               // scholar
+  price?: string;                             // shopping, as displayed
+  extracted_price?: number;                   // shopping, numeric
+  rating?: number;
+  reviews?: number;
+}
+
+interface SerpResult extends VerticalFields {
   position: number;
   title: string;
   link: string;
   snippet?: string;
+  date?: string;                              // publication date, when the engine reports one
+  score?: number;                             // the source's own relevance (learned_score, similarity)
+}
+
+/** A "People also ask" entry */
+interface RelatedQuestion {
+  question: string;
+  answer?: string;
+  title?: string;                             // page the answer comes from
+  link?: string;
+}
+
+/** A related search or "People also search for" entity, searchable as `query` */
+interface RelatedQuery {
+  query: string;
+  image?: string;
 }
 
 interface RichBlocks {
@@ -21,6 +80,10 @@ interface RichBlocks {
   images?: any[];
   knowledge_graph?: any;
   answer_box?: any;
+  related_searches?: RelatedQuery[];
+  related_questions?: RelatedQuestion[];
+  people_also_search_for?: RelatedQuery[];
+  spelling?: SpellingFix;                     // cached with the page; reconciled into did_you_mean, not merged
 }
 
 interface EngineResult {
@@ -29,25 +92,27 @@ interface EngineResult {
   rich?: RichBlocks;
   error?: string;
   cached?: boolean;
-}
-
-interface MergedDoc {
-  url: string;
-  title: string;
-  snippet: string;
-  engines: { engine: string; rank: number }[];
+  timed_out?: boolean;
+  last_page_count?: number;                   // results on the deepest page fetched (paging)
 }
 
 // ─── Engine Configuration (Task 3) ─────────────────────────────────
-// Per-engine metadata for SerpApi: query param names, extra params,
-// which JSON key holds organic results, and optional custom parsers.
+// Per-engine metadata: which provider serves it, query param names, extra
+// params, which JSON key holds organic results, and optional custom parsers.
 
 interface EngineConfig {
   engine: string;
+  provider?: ProviderName;                    // default "serpapi"
+  endpointEnv?: string;                       // env var holding the provider base URL
+  credentialsEnv?: string;                    // overrides the provider's API-key env var
   queryParam?: string;                        // default "q"
-  extraParams?: Record<string, string>;       // appended to SerpApi URL
-  resultsKey?: string;                        // default "organic_results"
+  dialect?: QueryDialect;                     // operator syntax, default "standard"
+  extraParams?: Record<string, string>;       // appended to the provider request
+  resultsKey?: string;                        // default: the provider's results key
   parseResult?: (r: any, i: number) => SerpResult | null;
+  timeoutMs?: number;                         // per-engine deadline, default ENGINE_TIMEOUT_MS
+  pageParams?: (page: number) => Record<string, string>[]; // SerpApi request params per result page; default: first page only
+  cacheName?: string;                         // search_cache engine key when the same engine is parsed differently (verticals)
 }
 
 /** Standard parser — works for Google, Bing, DuckDuckGo, Yandex, Baidu, Naver */
@@ -102,29 +167,166 @@ function parseNews(r: any, i: number): SerpResult | null {
     title: r.title ?? "",
     link,
     snippet: snippet.trim(),
+    date: r.iso_date ?? r.date,
   };
 }
 
+/**
+ * Two ~10-result requests per result page, offset via `param`. The first
+ * request of page 0 carries no offset; `base` is the index of the first
+ * result (0 for Google's start, 1 for Bing's first / Yahoo's b).
+ */
+function offsetPageParams(param: string, base: number) {
+  return (page: number): Record<string, string>[] =>
+    [0, 10].map((skip) => {
+      const offset = page * RESULTS_PER_PAGE + skip;
+      return offset === 0 ? {} : { [param]: String(offset + base) };
+    });
+}
+
 const WEB_ENGINES: EngineConfig[] = [
   // ── Original 6 engines ──
-  { engine: "google" },
-  { engine: "bing" },
+  { engine: "google", dialect: "full", pageParams: offsetPageParams("start", 0) },
+  { engine: "bing", pageParams: offsetPageParams("first", 1) },
   { engine: "duckduckgo" },
-  { engine: "yahoo", queryParam: "p" },
-  { engine: "yandex", queryParam: "text" },
+  { engine: "yahoo", queryParam: "p", pageParams: offsetPageParams("b", 1) },
+  { engine: "yandex", queryParam: "text", dialect: "yandex" },
   { engine: "baidu" },
   // ── New engines (Task 3) ──
   { engine: "naver", extraParams: { where: "web" } },
-  { engine: "brave", resultsKey: "web.results", parseResult: parseBrave },
-  { engine: "google_scholar", parseResult: parseScholar },
-  { engine: "google_news", resultsKey: "news_results", parseResult: parseNews },
+  {
+    engine: "brave",
+    resultsKey: "web.results",
+    parseResult: parseBrave,
+    pageParams: (page) => [page === 0 ? {} : { offset: String(page) }],
+  },
+  {
+    engine: "google_scholar",
+    parseResult: parseScholar,
+    dialect: "scholar",
+    pageParams: (page) => [page === 0 ? {} : { start: String(page * RESULTS_PER_PAGE) }],
+  },
+  { engine: "google_news", resultsKey: "news_results", parseResult: parseNews, dialect: "full" },
+  // ── Non-SerpApi providers (skipped unless their env vars are set) ──
+  { engine: "searxng", provider: "searxng", endpointEnv: "SEARXNG_URL" },
+  { engine: "brave_api", provider: "brave_api" },
+  { engine: "bing_api", provider: "bing_api" },
+  {
+    engine: "internal_docs",
+    provider: "elasticsearch",
+    endpointEnv: "INTERNAL_DOCS_ES_URL",
+    credentialsEnv: "INTERNAL_DOCS_ES_API_KEY",
+    extraParams: { index: "docs" },
+    dialect: "plain",
+  },
 ];
 
 // Cache freshness window — 7 days
 const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 
-function normalizeQuery(q: string): string {
-  return q.trim().toLowerCase().replace(/\s+/g, " ");
+// Paging — each engine contributes at most RESULTS_PER_PAGE results per
+// result page; "load more" requests go at most MAX_RESULT_PAGES deep.
+const RESULTS_PER_PAGE = 20;
+const MAX_RESULT_PAGES = 5;
+
+// Deadlines — an engine that misses its own deadline (or the overall search
+// deadline) is reported as timed out and aggregation proceeds without it.
+// Both can be overridden per request via engine_timeout_ms / search_deadline_ms.
+const ENGINE_TIMEOUT_MS = Number(Deno.env.get("ENGINE_TIMEOUT_MS")) || 6000;
+const SEARCH_DEADLINE_MS = Number(Deno.env.get("SEARCH_DEADLINE_MS")) || 10000;
+const MAX_DEADLINE_MS = 30000;
+
+// ─── Bangs ──────────────────────────────────────────────────────────
+// DuckDuckGo-style shortcuts: "!g rust traits" queries Google only. A bang
+// maps to one or more source ids (web engines, "local_index", "learned",
+// "community") and overrides both intent routing and preferred_engines for
+// that one query. Users can add or override bangs via profiles.custom_bangs.
+
+const BUILTIN_BANGS: Record<string, string[]> = {
+  g: ["google"],
+  google: ["google"],
+  b: ["bing"],
+  bing: ["bing"],
+  ddg: ["duckduckgo"],
+  y: ["yahoo"],
+  yandex: ["yandex"],
+  baidu: ["baidu"],
+  naver: ["naver"],
+  brave: ["brave"],
+  scholar: ["google_scholar"],
+  gs: ["google_scholar"],
+  news: ["google_news"],
+  n: ["google_news"],
+  local: ["local_index"],
+};
+
+const AUXILIARY_SOURCES = ["learned", "community", "local_index"];
+const BANG_TOKEN = /(^|\s)!([a-z0-9_]+)(?=\s|$)/gi;
+const BANG_NAME = /^[a-z0-9_]{1,32}$/;
+
+interface BangSelection {
+  query: string;                              // query with recognised bangs removed
+  bangs: string[];                            // recognised bang names
+  sources: string[];                          // union of their targets; empty = no override
+  unknown: string[];                          // unrecognised bang names (left in the query)
+}
+
+function hasBangToken(query: string): boolean {
+  return /(^|\s)![a-z0-9_]/i.test(query);
+}
+
+/** Keeps well-formed entries that point at known sources */
+function sanitizeCustomBangs(raw: unknown): Record<string, string[]> {
+  const known = new Set([...WEB_ENGINES.map((e) => e.engine), ...AUXILIARY_SOURCES]);
+  const bangs: Record<string, string[]> = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return bangs;
+  for (const [name, targets] of Object.entries(raw as Record<string, unknown>)) {
+    const key = name.toLowerCase().replace(/^!/, "");
+    if (!BANG_NAME.test(key) || !Array.isArray(targets)) continue;
+    const valid = targets.filter((t): t is string => typeof t === "string" && known.has(t));
+    if (valid.length > 0) bangs[key] = valid;
+  }
+  return bangs;
+}
+
+async function fetchCustomBangs(serviceClient: ServiceClient, userId: string): Promise<Record<string, string[]>> {
+  try {
+    const { data } = await serviceClient
+      .from("profiles")
+      .select("custom_bangs")
+      .eq("id", userId)
+      .maybeSingle();
+    return sanitizeCustomBangs(data?.custom_bangs);
+  } catch (e) {
+    console.warn("Custom bangs lookup failed:", e);
+    return {};
+  }
+}
+
+function extractBangs(query: string, customBangs: Record<string, string[]>): BangSelection {
+  const mapping = { ...BUILTIN_BANGS, ...customBangs };
+  const bangs: string[] = [];
+  const unknown: string[] = [];
+  const sources = new Set<string>();
+
+  const stripped = query.replace(BANG_TOKEN, (token, lead: string, name: string) => {
+    const key = name.toLowerCase();
+    const targets = mapping[key];
+    if (!targets) {
+      unknown.push(key);
+      return token;
+    }
+    bangs.push(key);
+    targets.forEach((t) => sources.add(t));
+    return lead;
+  });
+
+  return {
+    query: stripped.replace(/\s+/g, " ").trim(),
+    bangs,
+    sources: Array.from(sources),
+    unknown,
+  };
 }
 
 // ─── Query Intent Detection ──────────────────────────────────────────
@@ -161,8 +363,15 @@ function detectQueryIntent(query: string): IntentResult {
 
 function selectEnginesForIntent(
   { intent, regionalEngine }: IntentResult,
-  preferredEngines: string[]
+  preferredEngines: string[],
+  bangSources: string[] = []
 ): EngineConfig[] {
+  // A bang routes this one query exactly where it points (possibly to no
+  // web engine at all, e.g. !local)
+  if (bangSources.length > 0) {
+    return WEB_ENGINES.filter((e) => bangSources.includes(e.engine));
+  }
+
   // User's manual engine override always wins
   if (preferredEngines.length > 0) {
     const selected = WEB_ENGINES.filter((e) => preferredEngines.includes(e.engine));
@@ -170,11 +379,11 @@ function selectEnginesForIntent(
   }
 
   const routingMap: Record<QueryIntent, string[]> = {
-    generic:  ["google", "bing", "duckduckgo", "yahoo", "yandex"],
-    research: ["google", "bing", "google_scholar"],
+    generic:  ["google", "bing", "duckduckgo", "yahoo", "yandex", "internal_docs"],
+    research: ["google", "bing", "google_scholar", "internal_docs"],
     news:     ["google", "bing", "google_news"],
     local:    ["google", "bing"],
-    coding:   ["google", "bing", "duckduckgo"],
+    coding:   ["google", "bing", "duckduckgo", "internal_docs"],
     regional: ["google", "bing", regionalEngine ?? "google"],
   };
 
@@ -182,8 +391,95 @@ function selectEnginesForIntent(
   return WEB_ENGINES.filter((e) => names.includes(e.engine));
 }
 
-// ─── Extract rich blocks from a SerpAPI response ────────────────────
-function extractRichBlocks(data: any): RichBlocks {
+// ─── Search Providers ───────────────────────────────────────────────
+// A provider knows how to fetch raw response pages from one backend, where
+// the organic results live in that payload, how to parse a single result,
+// and how to pull rich blocks out of the first page. Every EngineConfig
+// names its provider (SerpApi by default) and resolves its own credentials.
+
+type ProviderName = "serpapi" | "searxng" | "brave_api" | "bing_api" | "elasticsearch";
+
+/** Raw JSON page as returned by a provider */
+type RawPage = Record<string, any>;
+
+interface ProviderCredentials {
+  apiKey?: string;
+  endpoint?: string;
+}
+
+interface SearchProvider {
+  /** Env var holding the API key when the engine doesn't set credentialsEnv */
+  credentialsEnv?: string;
+  /** Whether an API key is mandatory (self-hosted backends may run without one) */
+  requiresApiKey: boolean;
+  /** Whether the engine must supply a base URL via endpointEnv */
+  requiresEndpoint: boolean;
+  /** Default JSON key (dot-path) holding organic results */
+  resultsKey: string;
+  /** Default single-result parser */
+  parseResult: NonNullable<EngineConfig["parseResult"]>;
+  /**
+   * Fetches the raw JSON pages making up one result page (0-based); null
+   * entries are failed requests, an empty array means the engine has no
+   * such page.
+   */
+  fetchPages(
+    query: string,
+    config: EngineConfig,
+    credentials: ProviderCredentials,
+    page: number,
+    signal?: AbortSignal
+  ): Promise<(RawPage | null)[]>;
+  extractRichBlocks(data: RawPage): RichBlocks;
+}
+
+async function fetchProviderJson(
+  label: string,
+  url: string,
+  init: RequestInit & { signal?: AbortSignal }
+): Promise<RawPage | null> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    console.warn(`${label} warning: HTTP ${response.status}`);
+    return null;
+  }
+  return await response.json();
+}
+
+// Related-query blocks come as plain strings or objects naming the query
+// under query / name / title / text; Google also groups some into
+// { items: [...] } carousels
+function toRelatedQueries(items: unknown): RelatedQuery[] {
+  if (!Array.isArray(items)) return [];
+  return items.flatMap((item): RelatedQuery[] => {
+    if (typeof item === "string") return item.trim() ? [{ query: item.trim() }] : [];
+    if (Array.isArray(item?.items)) return toRelatedQueries(item.items);
+    const query = item?.query ?? item?.name ?? item?.title ?? item?.text;
+    if (typeof query !== "string" || !query.trim()) return [];
+    const image = item.image ?? item.thumbnail;
+    return [typeof image === "string" ? { query: query.trim(), image } : { query: query.trim() }];
+  });
+}
+
+function toRelatedQuestions(items: unknown): RelatedQuestion[] {
+  if (!Array.isArray(items)) return [];
+  return items.flatMap((item): RelatedQuestion[] => {
+    const question = item?.question;
+    if (typeof question !== "string" || !question.trim()) return [];
+    const answer = item.snippet ?? item.answer ?? (Array.isArray(item.list) ? item.list.join("; ") : undefined);
+    return [{
+      question: question.trim(),
+      answer: typeof answer === "string" ? answer : undefined,
+      title: item.title,
+      link: item.link ?? item.url,
+    }];
+  });
+}
+
+// ── SerpApi ─────────────────────────────────────────────────────────
+
+// Extract rich blocks from a SerpAPI response
+function extractRichBlocks(data: RawPage): RichBlocks {
   const rich: RichBlocks = {};
   if (data.weather_result || data.answer_box?.weather) {
     rich.weather = data.weather_result || data.answer_box;
@@ -205,9 +501,390 @@ function extractRichBlocks(data: any): RichBlocks {
   if (data.answer_box && !rich.dictionary && !rich.weather) {
     rich.answer_box = data.answer_box;
   }
+  const relatedSearches = toRelatedQueries(data.related_searches);
+  if (relatedSearches.length > 0) rich.related_searches = relatedSearches;
+  const relatedQuestions = toRelatedQuestions(data.related_questions);
+  if (relatedQuestions.length > 0) rich.related_questions = relatedQuestions;
+  const peopleAlsoSearchFor = toRelatedQueries(
+    data.people_also_search_for ?? data.knowledge_graph?.people_also_search_for
+  );
+  if (peopleAlsoSearchFor.length > 0) rich.people_also_search_for = peopleAlsoSearchFor;
+  // "Showing results for X" means the engine already corrected the query;
+  // spelling_fix / did_you_mean are suggestions only
+  const info = data.search_information;
+  const corrected = info?.showing_results_for || info?.spelling_fix || info?.did_you_mean;
+  if (typeof corrected === "string" && corrected.trim()) {
+    rich.spelling = { query: corrected.trim(), auto: !!info.showing_results_for };
+  }
   return rich;
 }
 
+const serpApiProvider: SearchProvider = {
+  credentialsEnv: "SERP_API_KEY",
+  requiresApiKey: true,
+  requiresEndpoint: false,
+  resultsKey: "organic_results",
+  parseResult: parseStandard,
+  extractRichBlocks,
+  fetchPages(query, config, credentials, page, signal) {
+    const { engine } = config;
+    const qp = config.queryParam || "q";
+
+    const fetchPage = (startParam?: Record<string, string>) => {
+      const params = new URLSearchParams({
+        [qp]: query,
+        api_key: credentials.apiKey!,
+        engine,
+        num: "20",
+        count: "20",
+        ...(config.extraParams || {}),
+        ...(startParam || {}),
+      });
+      return fetchProviderJson(`SerpAPI ${engine}`, `https://serpapi.com/search.json?${params.toString()}`, { signal });
+    };
+
+    // Engines without pageParams only have a first page. Google, Bing and
+    // Yahoo heavily truncate each request, so they take two per page.
+    const requests = config.pageParams ? config.pageParams(page) : page === 0 ? [{}] : [];
+    return Promise.all(requests.map((pageParam) => fetchPage(pageParam)));
+  },
+};
+
+// ── SearXNG (self-hosted metasearch, JSON output must be enabled) ──
+
+function parseSearxng(r: RawPage, i: number): SerpResult | null {
+  const link = r.url || "";
+  if (!link) return null;
+  return {
+    position: i + 1,
+    title: r.title ?? "",
+    link,
+    snippet: r.content ?? "",
+  };
+}
+
+const searxngProvider: SearchProvider = {
+  credentialsEnv: "SEARXNG_API_KEY",
+  requiresApiKey: false,
+  requiresEndpoint: true,
+  resultsKey: "results",
+  parseResult: parseSearxng,
+  async fetchPages(query, config, credentials, page, signal) {
+    const fetchPage = (pageno: number) => {
+      const params = new URLSearchParams({
+        q: query,
+        format: "json",
+        pageno: String(pageno),
+        ...(config.extraParams || {}),
+      });
+      const headers: Record<string, string> = { Accept: "application/json" };
+      if (credentials.apiKey) headers.Authorization = `Bearer ${credentials.apiKey}`;
+      const base = credentials.endpoint!.replace(/\/+$/, "");
+      return fetchProviderJson(`SearXNG ${config.engine}`, `${base}/search?${params.toString()}`, { headers, signal });
+    };
+    // SearXNG returns ~10 results per (1-based) pageno
+    return Promise.all([fetchPage(page * 2 + 1), fetchPage(page * 2 + 2)]);
+  },
+  extractRichBlocks(data: RawPage): RichBlocks {
+    const rich: RichBlocks = {};
+    const infobox = Array.isArray(data.infoboxes) ? data.infoboxes[0] : null;
+    if (infobox) {
+      rich.knowledge_graph = {
+        title: infobox.infobox,
+        description: infobox.content,
+        image: infobox.img_src,
+        source: infobox.urls?.[0] ? { name: infobox.urls[0].title, link: infobox.urls[0].url } : undefined,
+      };
+    }
+    if (Array.isArray(data.answers) && data.answers.length > 0) {
+      const answer = data.answers[0];
+      rich.answer_box = typeof answer === "string" ? { answer } : { answer: answer.answer, link: answer.url };
+    }
+    if (Array.isArray(data.corrections) && typeof data.corrections[0] === "string") {
+      rich.spelling = { query: data.corrections[0], auto: false };
+    }
+    const suggestions = toRelatedQueries(data.suggestions);
+    if (suggestions.length > 0) rich.related_searches = suggestions;
+    return rich;
+  },
+};
+
+// ── Brave Search API (direct, not via SerpApi) ─────────────────────
+
+const braveApiProvider: SearchProvider = {
+  credentialsEnv: "BRAVE_API_KEY",
+  requiresApiKey: true,
+  requiresEndpoint: false,
+  resultsKey: "web.results",
+  parseResult: parseBrave,
+  async fetchPages(query, config, credentials, page, signal) {
+    // Brave's offset counts pages of `count` results, up to 9
+    if (page > 9) return [];
+    const params = new URLSearchParams({
+      q: query,
+      count: "20",
+      offset: String(page),
+      ...(config.extraParams || {}),
+    });
+    const data = await fetchProviderJson(
+      `Brave API ${config.engine}`,
+      `https://api.search.brave.com/res/v1/web/search?${params.toString()}`,
+      {
+        headers: { Accept: "application/json", "X-Subscription-Token": credentials.apiKey! },
+        signal,
+      }
+    );
+    return [data];
+  },
+  extractRichBlocks(data: RawPage): RichBlocks {
+    const rich: RichBlocks = {};
+    const infobox = data.infobox?.results?.[0];
+    if (infobox) {
+      rich.knowledge_graph = {
+        title: infobox.title,
+        description: infobox.long_desc ?? infobox.description,
+        image: infobox.thumbnail?.src,
+        source: infobox.url ? { name: "Brave", link: infobox.url } : undefined,
+      };
+    }
+    const faq = toRelatedQuestions(data.faq?.results);
+    if (faq.length > 0) rich.related_questions = faq;
+    // query.altered is the query Brave actually searched for
+    if (typeof data.query?.altered === "string" && data.query.altered) {
+      rich.spelling = { query: data.query.altered, auto: true };
+    }
+    return rich;
+  },
+};
+
+// ── Bing Web Search API (direct) ───────────────────────────────────
+
+function parseBingApi(r: RawPage, i: number): SerpResult | null {
+  const link = r.url || "";
+  if (!link) return null;
+  return {
+    position: i + 1,
+    title: r.name ?? "",
+    link,
+    snippet: r.snippet ?? "",
+  };
+}
+
+const bingApiProvider: SearchProvider = {
+  credentialsEnv: "BING_API_KEY",
+  requiresApiKey: true,
+  requiresEndpoint: false,
+  resultsKey: "webPages.value",
+  parseResult: parseBingApi,
+  async fetchPages(query, config, credentials, page, signal) {
+    const params = new URLSearchParams({
+      q: query,
+      count: "20",
+      offset: String(page * RESULTS_PER_PAGE),
+      ...(config.extraParams || {}),
+    });
+    const data = await fetchProviderJson(
+      `Bing API ${config.engine}`,
+      `https://api.bing.microsoft.com/v7.0/search?${params.toString()}`,
+      { headers: { "Ocp-Apim-Subscription-Key": credentials.apiKey! }, signal }
+    );
+    return [data];
+  },
+  extractRichBlocks(data: RawPage): RichBlocks {
+    const rich: RichBlocks = {};
+    const entity = data.entities?.value?.[0];
+    if (entity) {
+      rich.knowledge_graph = {
+        title: entity.name,
+        description: entity.description,
+        image: entity.image?.thumbnailUrl,
+        source: entity.url ? { name: "Bing", link: entity.url } : undefined,
+      };
+    }
+    if (Array.isArray(data.images?.value) && data.images.value.length > 0) {
+      rich.images = data.images.value.slice(0, 12).map((img: RawPage) => ({
+        thumbnail: img.thumbnailUrl,
+        link: img.hostPageUrl,
+        title: img.name,
+      }));
+    }
+    const relatedSearches = toRelatedQueries(data.relatedSearches?.value);
+    if (relatedSearches.length > 0) rich.related_searches = relatedSearches;
+    if (typeof data.queryContext?.alteredQuery === "string" && data.queryContext.alteredQuery) {
+      rich.spelling = { query: data.queryContext.alteredQuery, auto: true };
+    }
+    return rich;
+  },
+};
+
+// ── Elasticsearch (e.g. internal documentation index) ──────────────
+// extraParams: index (default "_all"), fields (comma-separated, default
+// "title^2,content,url").
+
+function parseElasticsearch(hit: RawPage, i: number): SerpResult | null {
+  const src = hit._source || {};
+  const link = src.url || src.link || "";
+  if (!link) return null;
+  const highlighted = hit.highlight?.content?.[0] ?? hit.highlight?.body?.[0];
+  const snippet = highlighted
+    ? String(highlighted).replace(/<\/?em>/g, "")
+    : src.description ?? String(src.content ?? src.body ?? "").slice(0, 300);
+  return {
+    position: i + 1,
+    title: src.title ?? link,
+    link,
+    snippet,
+  };
+}
+
+const elasticsearchProvider: SearchProvider = {
+  credentialsEnv: "ELASTICSEARCH_API_KEY",
+  requiresApiKey: false,
+  requiresEndpoint: true,
+  resultsKey: "hits.hits",
+  parseResult: parseElasticsearch,
+  async fetchPages(query, config, credentials, page, signal) {
+    const index = config.extraParams?.index || "_all";
+    const fields = (config.extraParams?.fields || "title^2,content,url").split(",");
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (credentials.apiKey) headers.Authorization = `ApiKey ${credentials.apiKey}`;
+    const base = credentials.endpoint!.replace(/\/+$/, "");
+    const data = await fetchProviderJson(`Elasticsearch ${config.engine}`, `${base}/${index}/_search`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        from: page * RESULTS_PER_PAGE,
+        size: RESULTS_PER_PAGE,
+        query: { multi_match: { query, fields } },
+        highlight: { fields: { content: {}, body: {} } },
+      }),
+      signal,
+    });
+    return [data];
+  },
+  extractRichBlocks: () => ({}),
+};
+
+const PROVIDERS: Record<ProviderName, SearchProvider> = {
+  serpapi: serpApiProvider,
+  searxng: searxngProvider,
+  brave_api: braveApiProvider,
+  bing_api: bingApiProvider,
+  elasticsearch: elasticsearchProvider,
+};
+
+function getProvider(config: EngineConfig): SearchProvider {
+  return PROVIDERS[config.provider ?? "serpapi"];
+}
+
+/**
+ * Resolves an engine's credentials from the environment. Returns null when
+ * the provider is not configured, so the engine is skipped instead of failing.
+ */
+function resolveCredentials(config: EngineConfig): ProviderCredentials | null {
+  // Replayed responses never reach the provider, so no credentials are needed
+  if (PROVIDER_MODE === "replay") return {};
+  const provider = getProvider(config);
+  const keyEnv = config.credentialsEnv ?? provider.credentialsEnv;
+  const apiKey = keyEnv ? Deno.env.get(keyEnv) : undefined;
+  const endpoint = config.endpointEnv ? Deno.env.get(config.endpointEnv) : undefined;
+  if (provider.requiresApiKey && !apiKey) return null;
+  if (provider.requiresEndpoint && !endpoint) return null;
+  return { apiKey, endpoint };
+}
+
+// ─── Fixture Replay / Record ────────────────────────────────────────
+// SEARCH_PROVIDER_MODE=replay serves raw provider pages from
+// SEARCH_FIXTURES_DIR instead of the network; =record fetches live and
+// writes each response there. Fixtures live at
+// <dir>/<engine>/<encoded normalized query>.json. Both modes bypass
+// search_cache so runs are reproducible. Record mode needs a writable
+// filesystem, i.e. `supabase functions serve`, not a deployed function.
+// Replay mode also never touches the database (OFFLINE): it searches as
+// a guest, without a search_sessions row, the local index, page
+// signatures, result embeddings or the crawl queue, so it runs without
+// Supabase at all (see replay_test.ts).
+
+type ProviderMode = "live" | "replay" | "record";
+
+const PROVIDER_MODE: ProviderMode = (() => {
+  const mode = (Deno.env.get("SEARCH_PROVIDER_MODE") || "live").toLowerCase();
+  return mode === "replay" || mode === "record" ? mode : "live";
+})();
+
+const OFFLINE = PROVIDER_MODE === "replay";
+
+const FIXTURES_DIR = (
+  Deno.env.get("SEARCH_FIXTURES_DIR") || new URL("./fixtures", import.meta.url).pathname
+).replace(/\/+$/, "");
+
+interface SearchFixture {
+  engine: string;
+  provider: ProviderName;
+  query: string;
+  recorded_at: string;
+  pages: (RawPage | null)[];
+}
+
+function fixturePath(engine: string, queryKey: string): string {
+  const file = encodeURIComponent(queryKey).replace(/\*/g, "%2A");
+  return `${FIXTURES_DIR}/${engine}/${file || "_"}.json`;
+}
+
+async function readFixture(engine: string, queryKey: string): Promise<SearchFixture | null> {
+  try {
+    return JSON.parse(await Deno.readTextFile(fixturePath(engine, queryKey)));
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return null;
+    throw e;
+  }
+}
+
+async function writeFixture(config: EngineConfig, queryKey: string, pages: (RawPage | null)[]) {
+  const path = fixturePath(config.engine, queryKey);
+  const fixture: SearchFixture = {
+    engine: config.engine,
+    provider: config.provider ?? "serpapi",
+    query: queryKey,
+    recorded_at: new Date().toISOString(),
+    pages,
+  };
+  try {
+    await Deno.mkdir(`${FIXTURES_DIR}/${config.engine}`, { recursive: true });
+    await Deno.writeTextFile(path, JSON.stringify(fixture, null, 2));
+  } catch (e) {
+    console.warn(`Fixture write failed for ${config.engine}:`, e);
+  }
+}
+
+/** Fetches provider pages, honouring the replay / record mode */
+async function fetchEnginePages(
+  engineQuery: EngineQuery,
+  queryKey: string,
+  config: EngineConfig,
+  credentials: ProviderCredentials,
+  signal?: AbortSignal
+): Promise<(RawPage | null)[]> {
+  if (PROVIDER_MODE === "replay") {
+    const fixture = await readFixture(config.engine, queryKey);
+    if (!fixture) throw new Error(`No fixture recorded at ${fixturePath(config.engine, queryKey)}`);
+    return fixture.pages;
+  }
+  const requestConfig = { ...config, extraParams: { ...config.extraParams, ...engineQuery.params } };
+  const pages = await getProvider(config).fetchPages(
+    engineQuery.text,
+    requestConfig,
+    credentials,
+    engineQuery.page,
+    signal
+  );
+  // Only record complete page sets (an empty set means "no such page")
+  if (PROVIDER_MODE === "record" && !signal?.aborted && (pages.length === 0 || pages.some(Boolean))) {
+    await writeFixture(config, queryKey, pages);
+  }
+  return pages;
+}
+
 /**
  * Resolves a nested key like "web.results" from an object.
  * e.g. getNestedKey(data, "web.results") → data.web?.results
@@ -219,78 +896,60 @@ function getNestedKey(obj: any, key: string): any {
 // ─── Search Engine Query (with cache) ───────────────────────────────
 
 async function searchEngine(
-  query: string,
+  engineQuery: EngineQuery,
   config: EngineConfig,
-  apiKey: string,
-  serviceClient: any
+  credentials: ProviderCredentials,
+  serviceClient: any,
+  signal?: AbortSignal
 ): Promise<EngineResult> {
   const { engine } = config;
-  const qNorm = normalizeQuery(query);
-
-  // 1. Try cache
-  try {
-    const { data: cached } = await serviceClient
-      .from("search_cache")
-      .select("organic_results, rich_blocks, fetched_at")
-      .eq("query_normalized", qNorm)
-      .eq("engine", engine)
-      .maybeSingle();
+  const cacheEngine = config.cacheName ?? engine;
+  const provider = getProvider(config);
+  const qNorm = engineQueryKey(engineQuery);
 
-    if (cached) {
-      const age = Date.now() - new Date(cached.fetched_at).getTime();
-      if (age < CACHE_TTL_MS) {
-        return {
-          engine,
-          results: cached.organic_results || [],
-          rich: cached.rich_blocks || {},
-          cached: true,
-        };
+  // 1. Try cache (live mode only — fixtures must not be shadowed by it)
+  if (PROVIDER_MODE === "live") {
+    try {
+      const { data: cached } = await serviceClient
+        .from("search_cache")
+        .select("organic_results, rich_blocks, fetched_at")
+        .eq("query_normalized", qNorm)
+        .eq("engine", cacheEngine)
+        .maybeSingle();
+
+      if (cached) {
+        const age = Date.now() - new Date(cached.fetched_at).getTime();
+        if (age < CACHE_TTL_MS) {
+          return {
+            engine,
+            results: cached.organic_results || [],
+            rich: cached.rich_blocks || {},
+            cached: true,
+          };
+        }
       }
+    } catch (e) {
+      console.warn(`Cache lookup failed for ${engine}:`, e);
     }
-  } catch (e) {
-    console.warn(`Cache lookup failed for ${engine}:`, e);
   }
 
-  // 2. Fetch from SerpAPI
+  // 2. Fetch from the engine's provider
   try {
-    const qp = config.queryParam || "q";
-
-    const fetchPage = async (startParam?: Record<string, string>) => {
-      const params = new URLSearchParams({
-        [qp]: query,
-        api_key: apiKey,
-        engine,
-        num: "20",
-        count: "20",
-        ...(config.extraParams || {}),
-        ...(startParam || {}),
-      });
-      const response = await fetch(`https://serpapi.com/search.json?${params.toString()}`);
-      if (!response.ok) {
-        console.warn(`SerpAPI ${engine} warning: HTTP ${response.status}`);
-        return null;
-      }
-      return await response.json();
-    };
-
-    const pagesToFetch = [fetchPage()];
-
-    // Multi-page fetching for engines that heavily truncate on first page
-    if (engine === "google") pagesToFetch.push(fetchPage({ start: "10" }));
-    if (engine === "bing") pagesToFetch.push(fetchPage({ first: "11" }));
-    if (engine === "yahoo") pagesToFetch.push(fetchPage({ b: "11" }));
+    const fetched = await fetchEnginePages(engineQuery, qNorm, config, credentials, signal);
+    // The engine doesn't go this deep — not an error
+    if (fetched.length === 0) return { engine, results: [] };
 
-    const pageDatas = (await Promise.all(pagesToFetch)).filter(Boolean);
+    const pageDatas = fetched.filter((pd): pd is RawPage => pd !== null);
     if (pageDatas.length === 0) {
-      return { engine, results: [], error: `Failed to fetch from SerpAPI` };
+      return { engine, results: [], error: `Failed to fetch from ${config.provider ?? "serpapi"}` };
     }
 
     // Use the first page for rich blocks
     const data = pageDatas[0];
-    const rich = extractRichBlocks(data);
+    const rich = provider.extractRichBlocks(data);
 
-    const resultsKey = config.resultsKey || "organic_results";
-    const parser = config.parseResult || parseStandard;
+    const resultsKey = config.resultsKey || provider.resultsKey;
+    const parser = config.parseResult || provider.parseResult;
 
     let organicResults: SerpResult[] = [];
 
@@ -307,8 +966,13 @@ async function searchEngine(
       }
     }
 
-    // Hard cap at exactly 20 results maximum for every engine
-    organicResults = organicResults.slice(0, 20);
+    // Hard cap at exactly RESULTS_PER_PAGE results per page for every engine
+    organicResults = organicResults.slice(0, RESULTS_PER_PAGE);
+
+    // Deadline hit between the fetch and here — don't cache a partial page set
+    if (signal?.aborted) return { engine, results: [], error: "Aborted", timed_out: true };
+
+    if (PROVIDER_MODE !== "live") return { engine, results: organicResults, rich };
 
     // 3. Upsert cache
     const { error: cacheError } = await serviceClient
@@ -316,7 +980,7 @@ async function searchEngine(
       .upsert(
         {
           query_normalized: qNorm,
-          engine,
+          engine: cacheEngine,
           organic_results: organicResults,
           rich_blocks: rich,
           fetched_at: new Date().toISOString(),
@@ -329,11 +993,84 @@ async function searchEngine(
     return { engine, results: organicResults, rich };
   } catch (error) {
     const msg = error instanceof Error ? error.message : "Unknown error";
-    console.error(`SerpAPI ${engine} exception:`, msg);
+    console.error(`${config.provider ?? "serpapi"} ${engine} exception:`, msg);
     return { engine, results: [], error: msg };
   }
 }
 
+/**
+ * Fetches result pages 0..pageCount-1 of one engine (each cached on its
+ * own, so earlier pages are usually cache hits) and concatenates them into
+ * a single ranked list, renumbering positions across pages.
+ */
+async function searchEngineDepth(
+  engineQuery: EngineQuery,
+  pageCount: number,
+  config: EngineConfig,
+  credentials: ProviderCredentials,
+  serviceClient: ServiceClient,
+  signal?: AbortSignal
+): Promise<EngineResult> {
+  if (pageCount <= 1) return searchEngine(engineQuery, config, credentials, serviceClient, signal);
+
+  const pages = await Promise.all(
+    Array.from({ length: pageCount }, (_, page) =>
+      searchEngine({ ...engineQuery, page }, config, credentials, serviceClient, signal)
+    )
+  );
+  const [first] = pages;
+  if (first.error) return first;
+
+  const seen = new Set<string>();
+  const results: SerpResult[] = [];
+  for (const page of pages) {
+    for (const r of page.results) {
+      if (seen.has(r.link)) continue;
+      seen.add(r.link);
+      results.push({ ...r, position: results.length + 1 });
+    }
+  }
+
+  const deepest = pages[pages.length - 1];
+  return {
+    engine: config.engine,
+    results,
+    rich: first.rich,
+    cached: pages.every((p) => p.cached),
+    last_page_count: deepest.results.length,
+  };
+}
+
+// ─── Deadline wrapper ───────────────────────────────────────────────
+
+function clampDeadline(value: unknown, fallback: number): number {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) return fallback;
+  return Math.min(n, MAX_DEADLINE_MS);
+}
+
+/**
+ * Runs one source with an abort signal and resolves with a `timed_out`
+ * result if it has not settled within `timeoutMs`. The abort cancels any
+ * in-flight HTTP request; the race guarantees we never wait past the deadline
+ * even if the source ignores the signal (e.g. a slow cache lookup).
+ */
+function runWithDeadline(
+  engine: string,
+  timeoutMs: number,
+  run: (signal: AbortSignal) => Promise<EngineResult>
+): Promise<EngineResult> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<EngineResult>((resolve) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve({ engine, results: [], error: `Timed out after ${timeoutMs}ms`, timed_out: true });
+    }, Math.max(timeoutMs, 0));
+  });
+  return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
+
 // ─── Deduplication (separate from ranking) ──────────────────────────
 
 function deduplicateResults(engineResults: EngineResult[]): MergedDoc[] {
@@ -342,17 +1079,23 @@ function deduplicateResults(engineResults: EngineResult[]): MergedDoc[] {
   for (const er of engineResults) {
     for (const r of er.results) {
       if (!r.link) continue;
-      const normalizedUrl = r.link.replace(/\/+$/, "").toLowerCase();
-      const existing = urlMap.get(normalizedUrl);
+      const key = canonicalUrl(r.link);
+      const existing = urlMap.get(key);
+      const entry = { engine: er.engine, rank: r.position, ...(r.score !== undefined ? { score: r.score } : {}) };
       if (existing) {
-        existing.engines.push({ engine: er.engine, rank: r.position });
+        // Variants of one page from the same engine keep its best rank
+        const sameEngine = existing.engines.find((e) => e.engine === er.engine);
+        if (sameEngine) sameEngine.rank = Math.min(sameEngine.rank, r.position);
+        else existing.engines.push(entry);
         if (!existing.snippet && r.snippet) existing.snippet = r.snippet;
+        if (!existing.date && r.date) existing.date = r.date;
       } else {
-        urlMap.set(normalizedUrl, {
-          url: r.link,
+        urlMap.set(key, {
+          url: r.link,                        // first engine's URL is kept for display
           title: r.title,
           snippet: r.snippet || "",
-          engines: [{ engine: er.engine, rank: r.position }],
+          date: r.date,
+          engines: [entry],
         });
       }
     }
@@ -361,234 +1104,890 @@ function deduplicateResults(engineResults: EngineResult[]): MergedDoc[] {
   return Array.from(urlMap.values());
 }
 
-// ─── Rank Aggregation Algorithms (Task 1 — fixed) ──────────────────
-// All algorithms now use a dynamic maxRank instead of hardcoded N=10.
-// Deterministic tiebreaker: more engines first, then URL alphabetically.
-
-function computeMaxRank(docs: MergedDoc[]): number {
-  let max = 10; // floor
-  for (const d of docs) {
-    for (const e of d.engines) {
-      if (e.rank > max) max = e.rank;
+/**
+ * Content signatures of the results that are already in the local web
+ * index (crawled earlier), keyed by canonical URL, for near-duplicate
+ * clustering beyond title matches.
+ */
+async function fetchPageSignatures(
+  serviceClient: ServiceClient,
+  docs: MergedDoc[]
+): Promise<Map<string, PageSignature>> {
+  const signatures = new Map<string, PageSignature>();
+  if (docs.length === 0) return signatures;
+  try {
+    const { data } = await serviceClient
+      .from("web_pages")
+      .select("url, content_hash, simhash")
+      .in("url", docs.slice(0, 200).map((d) => d.url));
+    for (const row of (data || []) as { url: string; content_hash: string | null; simhash: string | null }[]) {
+      signatures.set(canonicalUrl(row.url), { contentHash: row.content_hash, simhash: row.simhash });
     }
+  } catch (e) {
+    console.error("Page signature query failed:", e);
   }
-  return max;
-}
-
-/** Sentinel rank for documents absent from an engine */
-function getSentinel(maxRank: number): number {
-  return maxRank + 1;
-}
-
-function getRank(doc: MergedDoc, engine: string, maxRank: number): number {
-  const entry = doc.engines.find((e) => e.engine === engine);
-  return entry ? entry.rank : getSentinel(maxRank);
-}
-
-/** Deterministic tiebreaker: prefer more engines, then alphabetical URL */
-function tiebreak(a: MergedDoc, b: MergedDoc): number {
-  if (b.engines.length !== a.engines.length) return b.engines.length - a.engines.length;
-  return a.url.localeCompare(b.url);
+  return signatures;
 }
 
-// ── Borda Count ─────────────────────────────────────────────────────
+// Rank aggregation (Borda, Shimura, …, MC4, local Kemenization) lives in
+// ../_shared/aggregation.ts so evaluate-aggregation can replay it offline.
+
+// ─── Interleaving Experiments ───────────────────────────────────────
+// INTERLEAVING_METHODS="borda,rrf" A/B tests two aggregation methods on live
+// traffic. For INTERLEAVING_RATE (0–1, default 1) of signed-in first-page
+// web searches both methods rank the results, teamDraftInterleave() mixes
+// them, and the impression is logged in interleaving_impressions together
+// with the team behind each shown URL. The frontend reports clicks by URL
+// and record_interleaving_click() credits the team stored for it.
+
+const INTERLEAVING_PAIR: [string, string] | null = (() => {
+  const methods = (Deno.env.get("INTERLEAVING_METHODS") || "")
+    .split(",")
+    .map((m) => m.trim().toLowerCase())
+    .filter((m) => (AGGREGATION_METHODS as readonly string[]).includes(m));
+  return methods.length === 2 && methods[0] !== methods[1] ? [methods[0], methods[1]] : null;
+})();
+
+const INTERLEAVING_RATE = (() => {
+  const rate = Number(Deno.env.get("INTERLEAVING_RATE") ?? 1);
+  return Number.isFinite(rate) ? Math.min(Math.max(rate, 0), 1) : 1;
+})();
 
-function bordaScore(doc: MergedDoc, maxRank: number): number {
-  // Only count engines the doc appears in (no sentinel penalty)
-  return doc.engines.reduce((sum, e) => {
-    // Massive boost for personalized learned results
-    const weight = e.engine === "learned" ? 5 : 1; 
-    return sum + (weight * (maxRank + 1 - e.rank));
-  }, 0);
+/**
+ * Ranks the same docs with both methods of the experiment and
+ * interleaves them. Each method gets its own copies, so the explanations
+ * attached by one don't overwrite the other's.
+ */
+function interleaveMethods(
+  docs: MergedDoc[],
+  [methodA, methodB]: [string, string],
+  activeEngines: string[],
+  sqmScores: Record<string, number>,
+  options: RankOptions
+): MergedDoc[] {
+  const rankingA = rankResults(docs.map((d) => ({ ...d })), methodA, activeEngines, sqmScores, options);
+  const rankingB = rankResults(docs.map((d) => ({ ...d })), methodB, activeEngines, sqmScores, options);
+  return teamDraftInterleave(rankingA, rankingB);
 }
 
-function aggregateBorda(docs: MergedDoc[], maxRank: number): MergedDoc[] {
-  return [...docs].sort((a, b) => {
-    const diff = bordaScore(b, maxRank) - bordaScore(a, maxRank);
-    return diff !== 0 ? diff : tiebreak(a, b);
-  });
+async function logInterleavingImpression(
+  serviceClient: ServiceClient,
+  userId: string,
+  query: string,
+  [methodA, methodB]: [string, string],
+  served: MergedDoc[]
+): Promise<string | null> {
+  const teams = Object.fromEntries(served.filter((d) => d.team).map((d) => [d.url, d.team]));
+  const { data, error } = await serviceClient
+    .from("interleaving_impressions")
+    .insert({ user_id: userId, query, method_a: methodA, method_b: methodB, teams })
+    .select("id")
+    .single();
+  if (error || !data) {
+    console.error("Failed to log interleaving impression:", error);
+    return null;
+  }
+  return data.id as string;
 }
 
-// ── Shimura (Fuzzy Majority) ────────────────────────────────────────
+// ─── Diversification: result embeddings ─────────────────────────────
+// MMR compares the top results by meaning when it can, so their titles and
+// snippets are embedded in one batch (generate-embedding takes up to 20).
+// Deeper results, or all of them when the call fails or runs late, fall
+// back to the URL heuristic in _shared/aggregation.ts.
 
-function aggregateShimura(docs: MergedDoc[], engines: string[], maxRank: number): MergedDoc[] {
-  const m = engines.length;
-  if (m === 0) return aggregateBorda(docs, maxRank);
-  const scores = docs.map((a, i) => {
-    let minPref = Infinity;
-    for (let j = 0; j < docs.length; j++) {
-      if (i === j) continue;
-      const b = docs[j];
-      let count = 0;
-      for (const eng of engines) {
-        if (getRank(a, eng, maxRank) <= getRank(b, eng, maxRank)) count++;
-      }
-      const pref = count / m;
-      if (pref < minPref) minPref = pref;
-    }
-    return { doc: a, score: minPref === Infinity ? 1 : minPref };
-  });
-  scores.sort((a, b) => {
-    const diff = b.score - a.score;
-    return diff !== 0 ? diff : tiebreak(a.doc, b.doc);
-  });
-  return scores.map((s) => s.doc);
-}
+const DIVERSIFY_EMBED_LIMIT = 20;
+const DIVERSIFY_EMBED_TIMEOUT_MS = 4000;
 
-// ── Modal Rank (FIXED: only count actual ranks, not sentinels) ──────
+async function fetchResultEmbeddings(
+  docs: MergedDoc[],
+  supabaseUrl: string,
+  serviceKey: string
+): Promise<Map<string, number[]>> {
+  const embeddings = new Map<string, number[]>();
+  const top = docs.slice(0, DIVERSIFY_EMBED_LIMIT);
+  if (top.length < 2) return embeddings;
 
-function aggregateModal(docs: MergedDoc[]): MergedDoc[] {
-  function modalRank(doc: MergedDoc): number {
-    // Only use ranks from engines that actually returned this doc
-    if (doc.engines.length === 0) return Infinity;
-    const freq = new Map<number, number>();
-    for (const e of doc.engines) {
-      freq.set(e.rank, (freq.get(e.rank) || 0) + 1);
-    }
-    let maxFreq = 0;
-    let bestRank = Infinity;
-    for (const [rank, count] of freq) {
-      if (count > maxFreq || (count === maxFreq && rank < bestRank)) {
-        maxFreq = count;
-        bestRank = rank;
-      }
+  try {
+    const resp = await fetch(`${supabaseUrl}/functions/v1/generate-embedding`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${serviceKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        texts: top.map((d) => `${d.title}\n${d.snippet}`),
+        task_type: "SEMANTIC_SIMILARITY",
+      }),
+      signal: AbortSignal.timeout(DIVERSIFY_EMBED_TIMEOUT_MS),
+    });
+    if (resp.ok) {
+      const data = await resp.json();
+      ((data.embeddings ?? []) as (number[] | null)[]).forEach((vector, i) => {
+        if (vector && top[i]) embeddings.set(top[i].url, vector);
+      });
     }
-    return bestRank;
+  } catch (e) {
+    console.error("Result embedding error:", e);
   }
-  return [...docs].sort((a, b) => {
-    const diff = modalRank(a) - modalRank(b);
-    return diff !== 0 ? diff : tiebreak(a, b);
-  });
+  return embeddings;
 }
 
-// ── MFO (Maximum Fuzzy Optimistic) ──────────────────────────────────
+// ─── Merge rich blocks across engines (first non-empty wins) ────────
+// Related searches, questions and entities are lists instead: the union
+// across engines, the ones most engines suggest first (mergeRelated).
+
+const MAX_RELATED_SEARCHES = 8;
+const MAX_RELATED_QUESTIONS = 6;
+const MAX_PEOPLE_ALSO_SEARCH_FOR = 8;
 
-function aggregateMFO(docs: MergedDoc[], maxRank: number): MergedDoc[] {
-  function mfoScore(doc: MergedDoc): number {
-    let best = 0;
-    for (const e of doc.engines) {
-      const mu = (maxRank + 1 - e.rank) / maxRank;
-      if (mu > best) best = mu;
+function mergeRichBlocks(engineResults: EngineResult[]): RichBlocks {
+  const merged: RichBlocks = {};
+  for (const er of engineResults) {
+    if (!er.rich) continue;
+    if (!merged.weather && er.rich.weather) merged.weather = er.rich.weather;
+    if (!merged.dictionary && er.rich.dictionary) merged.dictionary = er.rich.dictionary;
+    if (!merged.knowledge_graph && er.rich.knowledge_graph) merged.knowledge_graph = er.rich.knowledge_graph;
+    if (!merged.answer_box && er.rich.answer_box) merged.answer_box = er.rich.answer_box;
+    if ((!merged.images || merged.images.length === 0) && er.rich.images) {
+      merged.images = er.rich.images;
     }
-    return best;
   }
-  return [...docs].sort((a, b) => {
-    const diff = mfoScore(b) - mfoScore(a);
-    return diff !== 0 ? diff : tiebreak(a, b);
-  });
+
+  const rich = engineResults.map((er) => er.rich ?? {});
+  const relatedSearches = mergeRelated(
+    rich.map((r) => r.related_searches), (r) => normalizeQuery(r.query), MAX_RELATED_SEARCHES
+  );
+  if (relatedSearches.length > 0) merged.related_searches = relatedSearches;
+  const relatedQuestions = mergeRelated(
+    rich.map((r) => r.related_questions), (q) => normalizeQuery(q.question), MAX_RELATED_QUESTIONS
+  );
+  if (relatedQuestions.length > 0) merged.related_questions = relatedQuestions;
+  const people = mergeRelated(
+    rich.map((r) => r.people_also_search_for), (p) => normalizeQuery(p.query), MAX_PEOPLE_ALSO_SEARCH_FOR
+  );
+  if (people.length > 0) merged.people_also_search_for = people;
+  return merged;
 }
 
-// ── MBV (FIXED: compute over actual ranks only, positive scoring) ───
+// ─── Vertical Search ────────────────────────────────────────────────
+// Images, news, videos, scholar and shopping each run their own engine set
+// and parsers, keep their vertical-specific fields (VerticalFields), merge
+// duplicates on their own identity and, where it matters, rerank the
+// aggregated list with their own signal (recency, citations).
 
-function aggregateMBV(docs: MergedDoc[], maxRank: number): MergedDoc[] {
-  const k = 0.5;
-  function mbvScore(doc: MergedDoc): number {
-    if (doc.engines.length === 0) return 0;
-    const ranks = doc.engines.map((e) => e.rank);
-    const mean = ranks.reduce((s, r) => s + r, 0) / ranks.length;
-    const variance = ranks.reduce((s, r) => s + (r - mean) ** 2, 0) / ranks.length;
-    // Positive scoring: lower mean = better, lower variance = more consistent
-    // k * σ rewards consistency (subtracts less for low-variance docs)
-    return (maxRank + 1 - mean) + k * Math.sqrt(variance > 0 ? 1 / variance : 1);
-  }
-  return [...docs].sort((a, b) => {
-    const diff = mbvScore(b) - mbvScore(a);
-    return diff !== 0 ? diff : tiebreak(a, b);
-  });
-}
+type Vertical = "web" | "images" | "news" | "videos" | "scholar" | "shopping";
 
-// ── OWA (Ordered Weighted Averaging) ────────────────────────────────
+interface VerticalDoc extends MergedDoc, VerticalFields {}
 
-function aggregateOWA(docs: MergedDoc[], engines: string[], maxRank: number): MergedDoc[] {
-  const m = engines.length;
-  if (m === 0) return aggregateBorda(docs, maxRank);
-  const weights: number[] = [];
-  for (let j = 1; j <= m; j++) {
-    weights.push((2 * (m + 1 - j)) / (m * (m + 1)));
-  }
-  const scores = docs.map((a, i) => {
-    let minOWA = Infinity;
-    for (let j = 0; j < docs.length; j++) {
-      if (i === j) continue;
-      const b = docs[j];
-      const prefs = engines.map((eng) =>
-        getRank(a, eng, maxRank) <= getRank(b, eng, maxRank) ? 1 : 0
-      );
-      prefs.sort((x, y) => y - x);
-      const owaVal = prefs.reduce((sum, p, idx) => sum + weights[idx] * p, 0);
-      if (owaVal < minOWA) minOWA = owaVal;
-    }
-    return { doc: a, score: minOWA === Infinity ? 1 : minOWA };
-  });
-  scores.sort((a, b) => {
-    const diff = b.score - a.score;
-    return diff !== 0 ? diff : tiebreak(a.doc, b.doc);
-  });
-  return scores.map((s) => s.doc);
+interface VerticalConfig {
+  engines: EngineConfig[];
+  /** Identity used to merge the same item across engines */
+  dedupeKey: (r: SerpResult) => string;
+  /** Vertical-specific multiplier applied on top of the aggregated order */
+  boost?: (doc: VerticalDoc) => number;
+  /** How the boost is described in result explanations */
+  boostLabel?: string;
 }
 
-// ── Biased (SQM-weighted Borda) ─────────────────────────────────────
+const VERTICAL_FIELDS: (keyof VerticalFields)[] = [
+  "thumbnail", "image", "source", "duration", "cited_by", "pdf", "price", "extracted_price", "rating", "reviews",
+];
 
-function aggregateBiased(
-  docs: MergedDoc[],
-  sqmScores: Record<string, number>,
-  maxRank: number
-): MergedDoc[] {
-  function biasedScore(doc: MergedDoc): number {
-    return doc.engines.reduce((sum, e) => {
-      // If it's the learned engine, give it a massive SQM score to ensure it bubbles up
-      const sqm = e.engine === "learned" ? 5.0 : (sqmScores[e.engine] ?? 1.0);
-      return sum + sqm * (maxRank + 1 - e.rank);
-    }, 0);
-  }
-  return [...docs].sort((a, b) => {
-    const diff = biasedScore(b) - biasedScore(a);
-    return diff !== 0 ? diff : tiebreak(a, b);
-  });
+/** Images — { title, link (host page), original, thumbnail, source } */
+function parseImage(r: RawPage, i: number): SerpResult | null {
+  const link = r.link || r.original || "";
+  if (!link) return null;
+  return {
+    position: r.position ?? i + 1,
+    title: r.title ?? "",
+    link,
+    image: r.original,
+    thumbnail: r.thumbnail,
+    source: r.source,
+  };
 }
 
-// ── Dispatcher ──────────────────────────────────────────────────────
+/** News — Google News nests top stories under `highlight` */
+function parseNewsItem(r: RawPage, i: number): SerpResult | null {
+  const item = r.link ? r : r.highlight;
+  if (!item?.link) return null;
+  return {
+    position: r.position ?? i + 1,
+    title: item.title ?? "",
+    link: item.link,
+    snippet: item.snippet ?? "",
+    source: item.source?.name ?? item.source,
+    date: item.iso_date ?? item.date,
+    thumbnail: item.thumbnail,
+  };
+}
 
-function rankResults(
-  docs: MergedDoc[],
+/** Videos — Google Videos and YouTube ({ thumbnail.static, length, channel }) */
+function parseVideo(r: RawPage, i: number): SerpResult | null {
+  const link = r.link || "";
+  if (!link) return null;
+  return {
+    position: r.position_on_page ?? r.position ?? i + 1,
+    title: r.title ?? "",
+    link,
+    snippet: r.snippet ?? r.description ?? "",
+    thumbnail: typeof r.thumbnail === "string" ? r.thumbnail : r.thumbnail?.static,
+    duration: r.duration ?? r.length,
+    source: r.channel?.name ?? r.source ?? r.displayed_link,
+    date: r.date ?? r.published_date,
+  };
+}
+
+/** Scholar — keeps citation count and PDF link instead of folding them into the snippet */
+function parseScholarItem(r: RawPage, i: number): SerpResult | null {
+  const link = r.link || "";
+  if (!link) return null;
+  const pdf = Array.isArray(r.resources)
+    ? r.resources.find((res: RawPage) => res.file_format === "PDF")?.link
+    : undefined;
+  return {
+    position: r.position ?? i + 1,
+    title: r.title ?? "",
+    link,
+    snippet: r.snippet ?? "",
+    source: r.publication_info?.summary,
+    cited_by: r.inline_links?.cited_by?.total,
+    pdf,
+  };
+}
+
+/** Shopping — { title, product_link | link, price, extracted_price, source, rating, reviews } */
+function parseShopping(r: RawPage, i: number): SerpResult | null {
+  const link = r.product_link || r.link || "";
+  if (!link) return null;
+  return {
+    position: r.position ?? i + 1,
+    title: r.title ?? "",
+    link,
+    snippet: r.snippet ?? "",
+    thumbnail: r.thumbnail,
+    source: r.source ?? r.seller,
+    price: r.price,
+    extracted_price: r.extracted_price,
+    rating: r.rating,
+    reviews: r.reviews,
+  };
+}
+
+const normalizedLink = (r: SerpResult) => canonicalUrl(r.link);
+
+const VERTICALS: Record<Exclude<Vertical, "web">, VerticalConfig> = {
+  images: {
+    engines: [
+      { engine: "google_images", resultsKey: "images_results", parseResult: parseImage },
+      { engine: "bing_images", resultsKey: "images_results", parseResult: parseImage },
+    ],
+    dedupeKey: (r) => (r.image || r.link).toLowerCase(),
+  },
+  news: {
+    engines: [
+      { engine: "google_news", cacheName: "news:google_news", resultsKey: "news_results", parseResult: parseNewsItem, dialect: "full" },
+      { engine: "bing_news", resultsKey: "organic_results", parseResult: parseNewsItem },
+    ],
+    dedupeKey: normalizedLink,
+    // Fresher stories float up: full weight today, half weight after ~3 days
+    boost: (doc) => {
+      const time = doc.date ? Date.parse(doc.date) : NaN;
+      if (Number.isNaN(time)) return 0.75;
+      const ageDays = Math.max(0, (Date.now() - time) / 86_400_000);
+      return 0.5 + 0.5 * Math.exp(-ageDays / 4);
+    },
+    boostLabel: "Recency boost",
+  },
+  videos: {
+    engines: [
+      { engine: "google_videos", resultsKey: "video_results", parseResult: parseVideo },
+      { engine: "youtube", queryParam: "search_query", resultsKey: "video_results", parseResult: parseVideo },
+    ],
+    dedupeKey: normalizedLink,
+  },
+  scholar: {
+    engines: [
+      {
+        engine: "google_scholar",
+        cacheName: "scholar:google_scholar",
+        parseResult: parseScholarItem,
+        dialect: "scholar",
+        pageParams: (page) => [page === 0 ? {} : { start: String(page * RESULTS_PER_PAGE) }],
+      },
+    ],
+    dedupeKey: normalizedLink,
+    // Well-cited papers rank higher: ×2 at 1000 citations
+    boost: (doc) => 1 + Math.log10(1 + (doc.cited_by ?? 0)) / 3,
+    boostLabel: "Citation boost",
+  },
+  shopping: {
+    engines: [
+      { engine: "google_shopping", resultsKey: "shopping_results", parseResult: parseShopping },
+      { engine: "bing_shopping", resultsKey: "shopping_results", parseResult: parseShopping },
+    ],
+    dedupeKey: normalizedLink,
+  },
+};
+
+function isVertical(value: unknown): value is Vertical {
+  return value === "web" || (typeof value === "string" && value in VERTICALS);
+}
+
+/** Like deduplicateResults, but on the vertical's own key and keeping its fields */
+function deduplicateVertical(engineResults: EngineResult[], config: VerticalConfig): VerticalDoc[] {
+  const map = new Map<string, VerticalDoc>();
+  for (const er of engineResults) {
+    for (const r of er.results) {
+      if (!r.link) continue;
+      const key = config.dedupeKey(r);
+      const existing = map.get(key);
+      if (existing) {
+        const sameEngine = existing.engines.find((e) => e.engine === er.engine);
+        if (sameEngine) sameEngine.rank = Math.min(sameEngine.rank, r.position);
+        else existing.engines.push({ engine: er.engine, rank: r.position });
+        if (!existing.snippet && r.snippet) existing.snippet = r.snippet;
+        if (!existing.date && r.date) existing.date = r.date;
+        for (const field of VERTICAL_FIELDS) {
+          if (existing[field] === undefined && r[field] !== undefined) {
+            Object.assign(existing, { [field]: r[field] });
+          }
+        }
+      } else {
+        const doc: VerticalDoc = {
+          url: r.link,
+          title: r.title,
+          snippet: r.snippet || "",
+          date: r.date,
+          engines: [{ engine: er.engine, rank: r.position }],
+        };
+        for (const field of VERTICAL_FIELDS) {
+          if (r[field] !== undefined) Object.assign(doc, { [field]: r[field] });
+        }
+        map.set(key, doc);
+      }
+    }
+  }
+  return Array.from(map.values());
+}
+
+/**
+ * Aggregates with the requested method, then applies the vertical's boost to
+ * a linear position score (1 for the top item, →0 for the last) and re-sorts.
+ */
+function aggregateVertical(
+  engineResults: EngineResult[],
+  config: VerticalConfig,
   method: string,
-  activeEngines: string[],
-  sqmScores: Record<string, number>
-): MergedDoc[] {
-  const maxRank = computeMaxRank(docs);
-  switch (method) {
-    case "shimura":
-      return aggregateShimura(docs, activeEngines, maxRank);
-    case "modal":
-      return aggregateModal(docs);
-    case "mfo":
-      return aggregateMFO(docs, maxRank);
-    case "mbv":
-      return aggregateMBV(docs, maxRank);
-    case "owa":
-      return aggregateOWA(docs, activeEngines, maxRank);
-    case "biased":
-      return aggregateBiased(docs, sqmScores, maxRank);
-    case "borda":
-    default:
-      return aggregateBorda(docs, maxRank);
+  parsed: ParsedQuery,
+  enforceOperators: boolean,
+  rankOptions: RankOptions = {}
+): VerticalDoc[] {
+  const docs = deduplicateVertical(engineResults, config).filter(
+    (doc) => !enforceOperators || matchesOperators(doc, parsed)
+  );
+  const activeEngines = engineResults.filter((er) => er.results.length > 0).map((er) => er.engine);
+  // Aggregators reorder the same objects, so the vertical fields survive
+  const ranked = rankResults(docs, method, activeEngines, {}, rankOptions) as VerticalDoc[];
+  const { boost } = config;
+  if (!boost) return ranked;
+
+  const n = ranked.length;
+  return ranked
+    .map((doc, i) => {
+      const multiplier = boost(doc);
+      doc.explanation?.adjustments.push({
+        label: `${config.boostLabel ?? "Vertical boost"} ×${multiplier.toFixed(2)}`,
+        value: multiplier,
+      });
+      return { doc, score: ((n - i) / n) * multiplier };
+    })
+    .sort((a, b) => b.score - a.score)
+    .map((s) => s.doc);
+}
+
+// ─── Personalized (N+1)-th source: learned engine ───────────────────
+
+type ServiceClient = ReturnType<typeof createClient>;
+
+const LEARNED_MAX_RESULTS = 20;
+/** Exact-query matrix rows at or below this (decayed) score are left out */
+const LEARNED_EXACT_MIN_SCORE = 0.2;
+
+async function fetchLtrModel(serviceClient: ServiceClient, userId: string): Promise<LtrModel | null> {
+  try {
+    const { data } = await serviceClient
+      .from("ltr_models")
+      .select("weights, pairs")
+      .eq("user_id", userId)
+      .maybeSingle();
+    return data ? { weights: data.weights as Record<string, number>, pairs: data.pairs as number } : null;
+  } catch (e) {
+    console.error("LTR model query failed:", e);
+    return null;
   }
 }
 
-// ─── Merge rich blocks across engines (first non-empty wins) ────────
-function mergeRichBlocks(engineResults: EngineResult[]): RichBlocks {
-  const merged: RichBlocks = {};
-  for (const er of engineResults) {
-    if (!er.rich) continue;
-    if (!merged.weather && er.rich.weather) merged.weather = er.rich.weather;
-    if (!merged.dictionary && er.rich.dictionary) merged.dictionary = er.rich.dictionary;
-    if (!merged.knowledge_graph && er.rich.knowledge_graph) merged.knowledge_graph = er.rich.knowledge_graph;
-    if (!merged.answer_box && er.rich.answer_box) merged.answer_box = er.rich.answer_box;
-    if ((!merged.images || merged.images.length === 0) && er.rich.images) {
-      merged.images = er.rich.images;
+interface SearchSettings {
+  domainRules: DomainRule[];
+  /** Opted in to the community engine (profiles.share_learning) */
+  shareLearning: boolean;
+}
+
+async function fetchSearchSettings(serviceClient: ServiceClient, userId: string): Promise<SearchSettings> {
+  try {
+    const { data } = await serviceClient
+      .from("profiles")
+      .select("domain_rules, share_learning")
+      .eq("id", userId)
+      .maybeSingle();
+    return { domainRules: sanitizeDomainRules(data?.domain_rules), shareLearning: data?.share_learning === true };
+  } catch (e) {
+    console.warn("Search settings lookup failed:", e);
+    return { domainRules: [], shareLearning: false };
+  }
+}
+
+async function fetchSqmScores(serviceClient: ServiceClient, userId: string): Promise<Record<string, number>> {
+  const sqmScores: Record<string, number> = {};
+  try {
+    const { data } = await serviceClient
+      .from("search_quality_measures")
+      .select("engine, sqm_score")
+      .eq("user_id", userId);
+    for (const row of data || []) sqmScores[row.engine] = row.sqm_score;
+  } catch (e) {
+    console.error("SQM query failed:", e);
+  }
+  return sqmScores;
+}
+
+/**
+ * Embeds the query for the learned and community engines, which share the
+ * one embedding per search. Resolves to null when it can't be embedded.
+ */
+async function embedQuery(
+  query: string,
+  supabaseUrl: string,
+  serviceKey: string,
+  signal?: AbortSignal
+): Promise<number[] | null> {
+  try {
+    const resp = await fetch(`${supabaseUrl}/functions/v1/generate-embedding`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${serviceKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ text: query, task_type: "RETRIEVAL_QUERY" }),
+      signal,
+    });
+    if (!resp.ok) return null;
+    const data = await resp.json();
+    return data.embedding as number[] | null;
+  } catch (e) {
+    console.error("Query embedding error:", e);
+    return null;
+  }
+}
+
+/**
+ * The personalized (N+1) engine over the relevance matrix
+ * (feedback_learning_index, one row per user, normalized query and URL):
+ * documents the user engaged with for exactly this query come first, by
+ * learned score; semantic matches from other queries follow, by a blend
+ * of embedding similarity and learned score. A document that has a row
+ * for this query is only ever ranked by that row, so one ignored here
+ * stays out even if it did well for other queries.
+ */
+async function searchLearnedEngine(
+  queryKey: string,
+  userId: string,
+  queryEmbedding: Promise<number[] | null>,
+  serviceClient: ServiceClient
+): Promise<EngineResult> {
+  const learningResults: EngineResult = { engine: "learned", results: [] };
+  const toResults = (docs: { url: string; title: string | null; snippet: string | null; learned_score: number }[]) =>
+    docs.map((doc) => ({
+      title: doc.title || doc.url,
+      link: doc.url,
+      snippet: doc.snippet || "",
+      score: doc.learned_score,
+    }));
+
+  try {
+    // 1. Exact-query matrix hits
+    const [{ data: exactDocs, error: exactError }, embedding] = await Promise.all([
+      serviceClient.rpc("match_learned_query", {
+        match_user_id: userId,
+        match_query_normalized: queryKey,
+        min_score: LEARNED_EXACT_MIN_SCORE,
+        match_count: LEARNED_MAX_RESULTS,
+      }),
+      queryEmbedding,
+    ]);
+    if (exactError) console.warn("Relevance matrix lookup failed:", exactError.message);
+    const exact = toResults(exactDocs || []);
+
+    // 2. Semantic matches, for the places exact hits leave
+    let semantic: ReturnType<typeof toResults> = [];
+    if (embedding && exact.length < LEARNED_MAX_RESULTS) {
+      const { data: matchedDocs, error: matchError } = await serviceClient.rpc(
+        "match_learned_documents",
+        {
+          query_embedding: `[${embedding.join(",")}]`,
+          match_user_id: userId,
+          match_threshold: 0.75,
+          match_count: LEARNED_MAX_RESULTS,
+          exclude_query_normalized: queryKey,
+        }
+      );
+
+      if (!matchError && matchedDocs && matchedDocs.length > 0) {
+        // N+1 Engine: Filter documents that have a meaningful learned relevance
+        const thresholdDocs = matchedDocs.filter((d: any) => d.learned_score >= 0.05);
+
+        if (thresholdDocs.length > 0) {
+          const maxLearnedScore = Math.max(...thresholdDocs.map((d: any) => d.learned_score), 0.01);
+          const scored = thresholdDocs.map((d: any) => ({
+            ...d,
+            // Blend the semantic similarity with the explicit learned_score
+            blended: d.similarity * 0.6 + (d.learned_score / maxLearnedScore) * 0.4,
+          }));
+
+          scored.sort((a: any, b: any) => b.blended - a.blended);
+          semantic = toResults(scored);
+        }
+      }
+    }
+
+    const exactUrls = new Set(exact.map((r) => r.link));
+    learningResults.results = [...exact, ...semantic.filter((r) => !exactUrls.has(r.link))]
+      .slice(0, LEARNED_MAX_RESULTS)
+      .map((r, i) => ({ position: i + 1, ...r }));
+  } catch (e) {
+    console.error("Learning index query failed:", e);
+  }
+
+  return learningResults;
+}
+
+// ─── Collaborative source: community engine ─────────────────────────
+// Opt-in (profiles.share_learning): documents that users with similar
+// interests rated highly for this query, via match_community_documents.
+// k-anonymity is enforced in the database: a document needs at least
+// COMMUNITY_MIN_USERS distinct contributors (never fewer than 3), and only
+// aggregates leave it — no user ids, no per-user scores.
+
+const COMMUNITY_MAX_RESULTS = 20;
+const COMMUNITY_MIN_USERS = 3;
+
+async function searchCommunityEngine(
+  queryKey: string,
+  userId: string,
+  queryEmbedding: Promise<number[] | null>,
+  serviceClient: ServiceClient
+): Promise<EngineResult> {
+  const communityResults: EngineResult = { engine: "community", results: [] };
+  try {
+    const embedding = await queryEmbedding;
+    const { data, error } = await serviceClient.rpc("match_community_documents", {
+      match_user_id: userId,
+      match_query_normalized: queryKey,
+      query_embedding: embedding ? `[${embedding.join(",")}]` : null,
+      min_users: COMMUNITY_MIN_USERS,
+      match_count: COMMUNITY_MAX_RESULTS,
+    });
+    if (error) {
+      console.warn("Community lookup failed:", error.message);
+      return communityResults;
     }
+    communityResults.results = (data || []).map(
+      (doc: { url: string; title: string | null; snippet: string | null; community_score: number }, i: number) => ({
+        position: i + 1,
+        title: doc.title || doc.url,
+        link: doc.url,
+        snippet: doc.snippet || "",
+        score: doc.community_score,
+      })
+    );
+  } catch (e) {
+    console.error("Community engine query failed:", e);
   }
-  return merged;
+  return communityResults;
+}
+
+// ─── Explicit feedback: blocked domains, pins, judgments ────────────
+// Set by the user on result cards. Blocked domains (and their subdomains)
+// are dropped before aggregation, so they can't appear in any result's
+// explanation; the response's `blocked` lists how many results each
+// domain hid instead. Results pinned for the query go first,
+// in pinning order, even if no engine returned them; thumbs up / down are
+// echoed back on the results (update-learning-index learns from them).
+
+type Judgment = "relevant" | "not_relevant";
+
+interface ExplicitFeedback {
+  blockedDomains: string[];
+  pins: { url: string; title: string; snippet: string }[];
+  judgments: Map<string, Judgment>;           // canonical URL → judgment
+}
+
+const NO_EXPLICIT_FEEDBACK: ExplicitFeedback = { blockedDomains: [], pins: [], judgments: new Map() };
+
+async function fetchExplicitFeedback(
+  serviceClient: ServiceClient,
+  userId: string,
+  queryKey: string
+): Promise<ExplicitFeedback> {
+  try {
+    const [blockedRes, pinsRes, judgmentsRes] = await Promise.all([
+      serviceClient.from("blocked_domains").select("domain").eq("user_id", userId),
+      serviceClient
+        .from("pinned_results")
+        .select("url, title, snippet")
+        .eq("user_id", userId)
+        .eq("query_normalized", queryKey)
+        .order("created_at", { ascending: true }),
+      serviceClient
+        .from("result_judgments")
+        .select("url, judgment")
+        .eq("user_id", userId)
+        .eq("query_normalized", queryKey),
+    ]);
+    return {
+      blockedDomains: (blockedRes.data || []).map((r: { domain: string }) => r.domain.toLowerCase()),
+      pins: pinsRes.data || [],
+      judgments: new Map(
+        (judgmentsRes.data || []).map((r: { url: string; judgment: Judgment }) => [canonicalUrl(r.url), r.judgment])
+      ),
+    };
+  } catch (e) {
+    console.error("Explicit feedback query failed:", e);
+    return NO_EXPLICIT_FEEDBACK;
+  }
+}
+
+/** The blocked domain covering the URL's host, if any */
+function blockingDomain(url: string, blockedDomains: string[]): string | undefined {
+  if (blockedDomains.length === 0) return undefined;
+  const host = canonicalHost(url);
+  return blockedDomains.find((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+function isBlocked(url: string, blockedDomains: string[]): boolean {
+  return blockingDomain(url, blockedDomains) !== undefined;
+}
+
+interface BlockedSummary {
+  domain: string;
+  results: number;                            // distinct documents it hid
+}
+
+/** How many of the (canonically distinct) URLs each blocked domain hid */
+function summarizeBlocked(urls: string[], blockedDomains: string[]): BlockedSummary[] {
+  const hidden = new Map<string, Set<string>>();
+  for (const url of urls) {
+    const domain = blockingDomain(url, blockedDomains);
+    if (!domain) continue;
+    if (!hidden.has(domain)) hidden.set(domain, new Set());
+    hidden.get(domain)!.add(canonicalUrl(url));
+  }
+  return [...hidden].map(([domain, keys]) => ({ domain, results: keys.size }));
+}
+
+function applyExplicitFeedback(docs: MergedDoc[], explicit: ExplicitFeedback): MergedDoc[] {
+  if (explicit.pins.length === 0 && explicit.judgments.size === 0) return docs;
+
+  const byUrl = new Map(docs.map((doc) => [canonicalUrl(doc.url), doc]));
+  const pinnedUrls = new Set<string>();
+  const pinned: MergedDoc[] = [];
+  for (const pin of explicit.pins) {
+    const key = canonicalUrl(pin.url);
+    if (pinnedUrls.has(key) || isBlocked(pin.url, explicit.blockedDomains)) continue;
+    pinnedUrls.add(key);
+    const doc = byUrl.get(key);
+    pinned.push(
+      doc
+        ? {
+            ...doc,
+            pinned: true,
+            explanation: doc.explanation && {
+              ...doc.explanation,
+              adjustments: [...doc.explanation.adjustments, { label: "Pinned for this query", value: 0 }],
+            },
+          }
+        : { url: pin.url, title: pin.title, snippet: pin.snippet, engines: [], pinned: true }
+    );
+  }
+
+  return [...pinned, ...docs.filter((doc) => !pinnedUrls.has(canonicalUrl(doc.url)))].map((doc) => {
+    const judgment = explicit.judgments.get(canonicalUrl(doc.url));
+    return judgment ? { ...doc, judgment } : doc;
+  });
+}
+
+// ─── Local web index as additional engine source ────────────────────
+
+async function searchLocalIndex(
+  query: string,
+  supabaseUrl: string,
+  serviceKey: string,
+  serviceClient: ServiceClient,
+  signal?: AbortSignal
+): Promise<EngineResult> {
+  const localIndexResults: EngineResult = { engine: "local_index", results: [] };
+  try {
+    const { count: indexedCount } = await serviceClient
+      .from("web_pages")
+      .select("id", { count: "exact", head: true })
+      .eq("crawl_status", "crawled");
+
+    // Only query local index if we have a meaningful number of pages
+    if (indexedCount && indexedCount >= 100) {
+      const localResp = await fetch(`${supabaseUrl}/functions/v1/search-local-index`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${serviceKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ query, count: 10 }),
+        signal,
+      });
+      if (localResp.ok) {
+        const localData = await localResp.json();
+        if (localData.results && localData.results.length > 0) {
+          localIndexResults.results = localData.results.map((r: any, i: number) => ({
+            position: i + 1,
+            title: r.title || r.link,
+            link: r.link,
+            snippet: r.snippet || "",
+            score: r.similarity,
+          }));
+        }
+      }
+    }
+  } catch (e) {
+    console.warn("Local index search failed (non-fatal):", e);
+  }
+  return localIndexResults;
+}
+
+// ─── Streaming Search Sessions ──────────────────────────────────────
+// Each engine's results are written to a search_sessions row as soon as
+// that engine finishes, together with a re-aggregated merged list. The
+// client subscribes to the row via Realtime and renders incrementally,
+// so slow engines no longer hold the whole page hostage.
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface SessionEngineEntry {
+  results: SerpResult[];
+  count: number;
+  error?: string;
+  cached?: boolean;
+  timed_out?: boolean;
+}
+
+/** Matches search_sessions.expires_at's default */
+const SESSION_TTL_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Creates the search_sessions row. The client may supply the id so it can
+ * subscribe before the search starts; otherwise Postgres generates one.
+ * An id that already names one of the caller's sessions (load more: a
+ * deeper page of the same search) reopens that row instead of adding one.
+ * Returns null if the row could not be created (streaming is best-effort).
+ */
+async function createSearchSession(
+  serviceClient: ServiceClient,
+  fields: {
+    id?: string;
+    user_id: string | null;
+    query: string;
+    query_intent: string;
+    aggregation_method: string;
+    all_engines: string[];
+  }
+): Promise<string | null> {
+  const row: Record<string, unknown> = { ...fields, status: "running" };
+  if (!fields.id || !UUID_PATTERN.test(fields.id)) delete row.id;
+
+  if (row.id) {
+    const { id, ...restart } = row;
+    const reopen = serviceClient
+      .from("search_sessions")
+      .update({
+        ...restart,
+        completed_engines: [],
+        timed_out_engines: [],
+        failed_engines: [],
+        engine_results: {},
+        error_message: null,
+        completed_at: null,
+        expires_at: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+      })
+      .eq("id", id);
+    const { data: reopened } = await (fields.user_id ? reopen.eq("user_id", fields.user_id) : reopen.is("user_id", null))
+      .select("id")
+      .maybeSingle();
+    if (reopened) return reopened.id;
+  }
+
+  const { data, error } = await serviceClient
+    .from("search_sessions")
+    .insert(row)
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    console.warn("Search session creation failed (streaming disabled):", error?.message);
+    return null;
+  }
+  return data.id;
+}
+
+/**
+ * Returns a publisher that serializes updates to one session row, so a
+ * slow write can never overwrite the state produced by a later engine.
+ */
+function createSessionPublisher(serviceClient: ServiceClient, sessionId: string | null) {
+  let chain: Promise<void> = Promise.resolve();
+  return (fields: Record<string, unknown>): Promise<void> => {
+    if (!sessionId) return chain;
+    chain = chain.then(async () => {
+      const { error } = await serviceClient
+        .from("search_sessions")
+        .update(fields)
+        .eq("id", sessionId);
+      if (error) console.warn(`Session ${sessionId} update failed:`, error.message);
+    });
+    return chain;
+  };
+}
+
+function toSessionEngineMap(engineResults: EngineResult[]): Record<string, SessionEngineEntry> {
+  const map: Record<string, SessionEngineEntry> = {};
+  for (const er of engineResults) {
+    map[er.engine] = {
+      results: er.results,
+      count: er.results.length,
+      error: er.error,
+      cached: er.cached,
+      timed_out: er.timed_out,
+    };
+  }
+  return map;
+}
+
+/** Orders engine results by the fixed source order so dedup/aggregation is deterministic. */
+function orderEngineResults(engineResults: EngineResult[], sourceOrder: string[]): EngineResult[] {
+  const position = (engine: string) => {
+    const idx = sourceOrder.indexOf(engine);
+    return idx === -1 ? sourceOrder.length : idx;
+  };
+  return [...engineResults].sort((a, b) => position(a.engine) - position(b.engine));
 }
 
 // ─── Main Handler ───────────────────────────────────────────────────
@@ -598,6 +1997,8 @@ Deno.serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let publishSession: ReturnType<typeof createSessionPublisher> | null = null;
+
   try {
     const authHeader = req.headers.get("Authorization");
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
@@ -606,7 +2007,7 @@ Deno.serve(async (req) => {
     const serviceClient = createClient(supabaseUrl, serviceKey);
     let authUser: { id: string } | null = null;
 
-    if (authHeader && authHeader.startsWith("Bearer ")) {
+    if (!OFFLINE && authHeader && authHeader.startsWith("Bearer ")) {
       try {
         const authClient = createClient(supabaseUrl, anonKey);
         const token = authHeader.replace("Bearer ", "");
@@ -617,7 +2018,30 @@ Deno.serve(async (req) => {
       }
     }
 
-    const { query, aggregation_method, preferred_engines } = await req.json();
+    const {
+      query,
+      aggregation_method,
+      preferred_engines,
+      session_id,
+      engine_timeout_ms,
+      search_deadline_ms,
+      page,
+      vertical,
+      rrf_k,
+      local_kemenization,
+      diversify,
+      mmr_lambda,
+      domain_cap,
+      list_bangs,
+    } = await req.json();
+
+    // Settings lists the built-in bangs from here instead of copying them
+    if (list_bangs === true) {
+      return new Response(
+        JSON.stringify({ success: true, builtin_bangs: BUILTIN_BANGS }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
     if (!query || typeof query !== "string" || query.trim().length === 0) {
       return new Response(
@@ -633,193 +2057,329 @@ Deno.serve(async (req) => {
       );
     }
 
-    const apiKey = Deno.env.get("SERP_API_KEY");
-    if (!apiKey) {
-      console.error("SERP_API_KEY not configured");
+    const method = aggregation_method || "borda";
+    const rankOptions: RankOptions = {
+      rrfK: clampRrfK(rrf_k),
+      localKemenize: local_kemenization === true,
+      diversify: diversify === true
+        ? { lambda: clampMmrLambda(mmr_lambda), domainCap: clampDomainCap(domain_cap) }
+        : null,
+    };
+    // 1-based in the API; deeper pages re-aggregate everything up to that page
+    const pageCount = Math.min(Math.max(Math.floor(Number(page)) || 1, 1), MAX_RESULT_PAGES);
+
+    // The user's domain rules and community opt-in, and their model if the
+    // ltr method (directly or as an interleaving arm) needs it
+    let shareLearning = false;
+    if (authUser) {
+      const needsLtrModel = method === "ltr" || !!INTERLEAVING_PAIR?.includes("ltr");
+      const [ltrModel, settings] = await Promise.all([
+        needsLtrModel ? fetchLtrModel(serviceClient, authUser.id) : Promise.resolve(null),
+        fetchSearchSettings(serviceClient, authUser.id),
+      ]);
+      rankOptions.ltrModel = ltrModel;
+      rankOptions.domainRules = settings.domainRules;
+      shareLearning = settings.shareLearning;
+    }
+
+    // ── Bangs: strip recognised ones, keep unknown ones and warn ──
+    const customBangs = authUser && hasBangToken(query)
+      ? await fetchCustomBangs(serviceClient, authUser.id)
+      : {};
+    const bangSelection = extractBangs(query.trim(), customBangs);
+    const warnings = bangSelection.unknown.map((name) => `Unknown bang "!${name}" was ignored`);
+    const trimmedQuery = bangSelection.query;
+    if (!trimmedQuery) {
       return new Response(
-        JSON.stringify({ success: false, error: "Search API not configured" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ success: false, error: "Query is required", warnings }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+    const bangSources = bangSelection.sources;
+    const runsSource = (source: string) => bangSources.length === 0 || bangSources.includes(source);
+
+    // Blocked domains, pins and judgments; awaited where first needed
+    const explicitFeedback = authUser
+      ? fetchExplicitFeedback(serviceClient, authUser.id, normalizeQuery(query))
+      : Promise.resolve(NO_EXPLICIT_FEEDBACK);
+
+    // ── Operators: engines get their own dialect, indexes the free text ──
+    const parsedQuery = parseSearchQuery(trimmedQuery);
+    const freeTextQuery = operatorFreeQuery(parsedQuery, trimmedQuery);
+    const enforceOperators = hasOperators(parsedQuery);
+
+    // Every source gets min(its own deadline, time left on the search deadline)
+    const engineTimeout = clampDeadline(engine_timeout_ms, ENGINE_TIMEOUT_MS);
+    const deadlineAt = Date.now() + clampDeadline(search_deadline_ms, SEARCH_DEADLINE_MS);
+    const withDeadline = (
+      engine: string,
+      timeoutMs: number,
+      run: (signal: AbortSignal) => Promise<EngineResult>
+    ) => runWithDeadline(engine, Math.min(timeoutMs, deadlineAt - Date.now()), run);
+
+    // ── Verticals: own engine set, schema and aggregation; no streaming ──
+    if (isVertical(vertical) && vertical !== "web") {
+      const verticalConfig = VERTICALS[vertical];
+      // A bang naming engines of this vertical (e.g. !scholar) narrows the
+      // search to them; bangs that name none of them are reported as ignored
+      const bangMapping = { ...BUILTIN_BANGS, ...customBangs };
+      const verticalEngineIds = verticalConfig.engines.map((cfg) => cfg.engine);
+      for (const name of bangSelection.bangs) {
+        if (!bangMapping[name].some((target) => verticalEngineIds.includes(target))) {
+          warnings.push(`Bang "!${name}" was ignored: it names no ${vertical} engine`);
+        }
+      }
+      const bangEngines = verticalEngineIds.filter((engine) => bangSources.includes(engine));
+      const runnable = verticalConfig.engines.flatMap((cfg) => {
+        if (bangEngines.length > 0 && !bangEngines.includes(cfg.engine)) return [];
+        const credentials = resolveCredentials(cfg);
+        return credentials ? [{ cfg, credentials }] : [];
+      });
+      if (runnable.length === 0) {
+        console.error(`No search provider configured for the ${vertical} vertical`);
+        return new Response(
+          JSON.stringify({ success: false, error: "Search API not configured" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      console.log(`Vertical search [${vertical}/${method}] engines=${runnable.map((e) => e.cfg.engine).join(",")}:`, trimmedQuery);
+
+      const verticalResults = await Promise.all(
+        runnable.map(({ cfg, credentials }) =>
+          withDeadline(cfg.engine, cfg.timeoutMs ?? engineTimeout, (signal) =>
+            searchEngineDepth(buildEngineQuery(parsedQuery, cfg), pageCount, cfg, credentials, serviceClient, signal)
+          )
+        )
+      );
+      const { blockedDomains } = await explicitFeedback;
+      const aggregated = aggregateVertical(
+        verticalResults, verticalConfig, method, parsedQuery, enforceOperators, rankOptions
+      );
+      const items = aggregated.filter((item) => !isBlocked(item.url, blockedDomains));
+      // Only engines with pageParams can serve a deeper page
+      const pagingEngines = new Set(runnable.filter((r) => r.cfg.pageParams).map((r) => r.cfg.engine));
+      const verticalHasMore = pageCount < MAX_RESULT_PAGES && verticalResults.some(
+        (er) => pagingEngines.has(er.engine) && (er.last_page_count ?? er.results.length) >= RESULTS_PER_PAGE / 2
+      );
 
-    const trimmedQuery = query.trim();
-    const method = aggregation_method || "borda";
+      return new Response(
+        JSON.stringify({
+          success: true,
+          query: trimmedQuery,
+          vertical,
+          aggregation_method: method,
+          warnings,
+          did_you_mean: enforceOperators ? null : reconcileSpelling(verticalResults, trimmedQuery),
+          page: pageCount,
+          has_more: verticalHasMore,
+          items,
+          blocked: summarizeBlocked(aggregated.map((item) => item.url), blockedDomains),
+          engineResults: verticalResults.map((er) => ({
+            engine: er.engine,
+            count: er.results.length,
+            error: er.error,
+            cached: er.cached,
+            timed_out: er.timed_out,
+          })),
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
     // ── Intent detection + dynamic engine selection ──
-    const intentResult = detectQueryIntent(trimmedQuery);
-    const selectedEngines = selectEnginesForIntent(
+    const intentResult = detectQueryIntent(freeTextQuery);
+    // Engines whose provider isn't configured in this deployment are skipped
+    const runnableEngines = selectEnginesForIntent(
       intentResult,
-      Array.isArray(preferred_engines) ? preferred_engines : []
-    );
+      Array.isArray(preferred_engines) ? preferred_engines : [],
+      bangSources
+    ).flatMap((cfg) => {
+      const credentials = resolveCredentials(cfg);
+      return credentials ? [{ cfg, credentials }] : [];
+    });
+    if (runnableEngines.length === 0 && !AUXILIARY_SOURCES.some((src) => bangSources.includes(src))) {
+      console.error("No search provider configured for the selected engines");
+      return new Response(
+        JSON.stringify({ success: false, error: "Search API not configured" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const selectedEngines = runnableEngines.map((e) => e.cfg);
     console.log(`Multi-engine search [${method}] intent=${intentResult.intent} engines=${selectedEngines.map(e=>e.engine).join(",")}:`, trimmedQuery);
 
-    // Query selected engines in parallel (cache-first per engine)
-    const engineResults: EngineResult[] = await Promise.all(
-      selectedEngines.map((cfg) => searchEngine(trimmedQuery, cfg, apiKey, serviceClient))
-    );
-
-    // Merge rich blocks from all engines
-    const richBlocks = mergeRichBlocks(engineResults);
+    // ── Session row + SQM scores (needed by every intermediate aggregation) ──
+    const [sessionId, sqmScores, explicit] = await Promise.all([
+      OFFLINE
+        ? Promise.resolve(null)
+        : createSearchSession(serviceClient, {
+            id: typeof session_id === "string" ? session_id : undefined,
+            user_id: authUser?.id ?? null,
+            query: trimmedQuery,
+            query_intent: intentResult.intent,
+            aggregation_method: method,
+            all_engines: selectedEngines.map((e) => e.engine),
+          }),
+      authUser ? fetchSqmScores(serviceClient, authUser.id) : Promise.resolve({} as Record<string, number>),
+      explicitFeedback,
+    ]);
+    publishSession = createSessionPublisher(serviceClient, sessionId);
+    const publish = publishSession;
+
+    const sourceOrder = [...selectedEngines.map((e) => e.engine), ...AUXILIARY_SOURCES];
+    const engineResults: EngineResult[] = [];
+
+    // Always re-aggregate (even on cached engine results). Near-duplicates
+    // are folded before ranking so a cluster earns all its members' ranks.
+    const aggregate = (signatures?: Map<string, PageSignature>) => {
+      const ordered = orderEngineResults(engineResults, sourceOrder);
+      // Enforce operators post-hoc — not every engine honours them
+      const deduplicated = clusterNearDuplicates(
+        deduplicateResults(ordered).filter((doc) =>
+          !isBlocked(doc.url, explicit.blockedDomains) && (!enforceOperators || matchesOperators(doc, parsedQuery))
+        ),
+        signatures
+      );
+      const activeEngines = ordered
+        .filter((er) => er.results.length > 0)
+        .map((er) => er.engine);
+      return {
+        ordered,
+        deduplicated,
+        activeEngines,
+        merged: rankResults(deduplicated, method, activeEngines, sqmScores, rankOptions),
+        richBlocks: mergeRichBlocks(ordered),
+      };
+    };
 
-    // Personalized (N+1)-th source for signed-in users
-    let learningResults: EngineResult = { engine: "learned", results: [] };
-    let sqmScores: Record<string, number> = {};
+    const onSourceDone = (er: EngineResult) => {
+      // Auxiliary sources (learned, community, local index) only count when they contribute
+      if (!er.error && er.results.length === 0 && AUXILIARY_SOURCES.includes(er.engine)) return;
+      engineResults.push(er);
+      const { ordered, merged, richBlocks } = aggregate();
+      publish({
+        engine_results: toSessionEngineMap(ordered),
+        completed_engines: ordered.filter((r) => !r.error).map((r) => r.engine),
+        timed_out_engines: ordered.filter((r) => r.timed_out).map((r) => r.engine),
+        failed_engines: ordered.filter((r) => r.error && !r.timed_out).map((r) => r.engine),
+        merged_results: applyExplicitFeedback(merged, explicit),
+        rich_blocks: richBlocks,
+      });
+    };
 
-    if (authUser) {
-      try {
-        const embeddingPromise = (async () => {
-          try {
-            const resp = await fetch(`${supabaseUrl}/functions/v1/generate-embedding`, {
-              method: "POST",
-              headers: {
-                Authorization: `Bearer ${serviceKey}`,
-                "Content-Type": "application/json",
-              },
-              body: JSON.stringify({ text: trimmedQuery, task_type: "RETRIEVAL_QUERY" }),
-            });
-            if (resp.ok) {
-              const data = await resp.json();
-              return data.embedding as number[] | null;
-            }
-            return null;
-          } catch (e) {
-            console.error("Query embedding error:", e);
-            return null;
-          }
-        })();
-
-        const [queryEmbedding, sqmRes] = await Promise.all([
-          embeddingPromise,
-          serviceClient
-            .from("search_quality_measures")
-            .select("engine, sqm_score")
-            .eq("user_id", authUser.id),
-        ]);
+    // Query selected engines, the learned index, the community engine and
+    // the local index in parallel (cache-first per engine); each publishes
+    // as soon as it lands.
 
-        if (queryEmbedding) {
-          const embeddingStr = `[${queryEmbedding.join(",")}]`;
-          const { data: matchedDocs, error: matchError } = await serviceClient.rpc(
-            "match_learned_documents",
-            {
-              query_embedding: embeddingStr,
-              match_user_id: authUser.id,
-              match_threshold: 0.75,
-              match_count: 20,
-            }
-          );
-
-          if (!matchError && matchedDocs && matchedDocs.length > 0) {
-            // N+1 Engine: Filter documents that have a meaningful learned relevance
-            const thresholdDocs = matchedDocs.filter((d: any) => d.learned_score >= 0.05);
-
-            if (thresholdDocs.length > 0) {
-              const maxLearnedScore = Math.max(...thresholdDocs.map((d: any) => d.learned_score), 0.01);
-              const scored = thresholdDocs.map((d: any) => ({
-                ...d,
-                // Blend the semantic similarity with the explicit learned_score
-                blended: d.similarity * 0.6 + (d.learned_score / maxLearnedScore) * 0.4,
-              }));
-              
-              scored.sort((a: any, b: any) => b.blended - a.blended);
-              
-              learningResults.results = scored.map((doc: any, i: number) => ({
-                position: i + 1,
-                title: doc.title || doc.url,
-                link: doc.url,
-                snippet: doc.snippet || "",
-              }));
-            }
-          }
-        } else {
-          const { data: learnedRes } = await serviceClient
-            .from("feedback_learning_index")
-            .select("url, title, snippet, learned_score, query_matches")
-            .eq("user_id", authUser.id)
-            .order("learned_score", { ascending: false })
-            .limit(20);
-
-          if (learnedRes && learnedRes.length > 0) {
-            const queryWords = trimmedQuery.toLowerCase().split(/\s+/);
-            const relevant = learnedRes.filter((doc) => {
-              const matches = doc.query_matches || [];
-              return matches.some((q: string) => {
-                const matchWords = q.toLowerCase().split(/\s+/);
-                return queryWords.every((w) => matchWords.includes(w));
-              });
-            });
-            learningResults.results = relevant.map((doc, i) => ({
-              position: i + 1,
-              title: doc.title || doc.url,
-              link: doc.url,
-              snippet: doc.snippet || "",
-            }));
-          }
-        }
+    const sources: Promise<EngineResult>[] = runnableEngines.map(({ cfg, credentials }) =>
+      withDeadline(cfg.engine, cfg.timeoutMs ?? engineTimeout, (signal) =>
+        searchEngineDepth(buildEngineQuery(parsedQuery, cfg), pageCount, cfg, credentials, serviceClient, signal)
+      )
+    );
+    const runsLearned = !!authUser && runsSource("learned");
+    const runsCommunity = !!authUser && shareLearning && runsSource("community");
+    // The learned and community engines share one embedding of the query,
+    // bounded by the same deadline as the engines themselves
+    const queryEmbedding = runsLearned || runsCommunity
+      ? embedQuery(
+          freeTextQuery,
+          supabaseUrl,
+          serviceKey,
+          AbortSignal.timeout(Math.max(Math.min(engineTimeout, deadlineAt - Date.now()), 0))
+        )
+      : Promise.resolve(null);
+    if (authUser && runsLearned) {
+      const userId = authUser.id;
+      sources.push(withDeadline("learned", engineTimeout, () =>
+        searchLearnedEngine(normalizeQuery(query), userId, queryEmbedding, serviceClient)
+      ));
+    }
+    if (authUser && runsCommunity) {
+      const userId = authUser.id;
+      sources.push(withDeadline("community", engineTimeout, () =>
+        searchCommunityEngine(normalizeQuery(query), userId, queryEmbedding, serviceClient)
+      ));
+    }
+    if (!OFFLINE && runsSource("local_index")) {
+      sources.push(withDeadline("local_index", engineTimeout, (signal) =>
+        searchLocalIndex(freeTextQuery, supabaseUrl, serviceKey, serviceClient, signal)
+      ));
+    }
 
-        if (sqmRes.data) {
-          for (const row of sqmRes.data) sqmScores[row.engine] = row.sqm_score;
-        }
-      } catch (e) {
-        console.error("Learning index / SQM query failed:", e);
+    await Promise.all(sources.map((p) => p.then(onSourceDone)));
+
+    // Streamed updates cluster on titles alone; the final list also uses
+    // the content signatures of pages already crawled
+    const pageSignatures = OFFLINE
+      ? new Map<string, PageSignature>()
+      : await fetchPageSignatures(serviceClient, deduplicateResults(engineResults));
+    const { ordered: finalResults, deduplicated, activeEngines, merged: streamed, richBlocks } = aggregate(pageSignatures);
+
+    // Streamed updates diversify by URL alone; the final list also compares
+    // the top results' snippets
+    let merged = streamed;
+    if (rankOptions.diversify && !OFFLINE) {
+      rankOptions.diversify.embeddings = await fetchResultEmbeddings(streamed, supabaseUrl, serviceKey);
+      if (rankOptions.diversify.embeddings.size > 0) {
+        merged = rankResults(deduplicated, method, activeEngines, sqmScores, rankOptions);
       }
     }
 
-    if (learningResults.results.length > 0) engineResults.push(learningResults);
-
-    // ─── Local web index as additional engine source ──────────────
-    let localIndexResults: EngineResult = { engine: "local_index", results: [] };
-    try {
-      const { count: indexedCount } = await serviceClient
-        .from("web_pages")
-        .select("id", { count: "exact", head: true })
-        .eq("crawl_status", "crawled");
-
-      // Only query local index if we have a meaningful number of pages
-      if (indexedCount && indexedCount >= 100) {
-        const localResp = await fetch(`${supabaseUrl}/functions/v1/search-local-index`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${serviceKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ query: trimmedQuery, count: 10 }),
-        });
-        if (localResp.ok) {
-          const localData = await localResp.json();
-          if (localData.results && localData.results.length > 0) {
-            localIndexResults.results = localData.results.map((r: any, i: number) => ({
-              position: i + 1,
-              title: r.title || r.link,
-              link: r.link,
-              snippet: r.snippet || "",
-            }));
-          }
-        }
+    // Interleaving experiment: only signed-in users' clicks can be credited
+    let interleaving: { impression_id: string; methods: [string, string] } | null = null;
+    let served = merged;
+    if (INTERLEAVING_PAIR && authUser && pageCount === 1 && Math.random() < INTERLEAVING_RATE) {
+      const interleaved = interleaveMethods(deduplicated, INTERLEAVING_PAIR, activeEngines, sqmScores, rankOptions);
+      const impressionId = await logInterleavingImpression(
+        serviceClient, authUser.id, trimmedQuery, INTERLEAVING_PAIR, interleaved
+      );
+      if (impressionId) {
+        served = interleaved;
+        interleaving = { impression_id: impressionId, methods: INTERLEAVING_PAIR };
       }
-    } catch (e) {
-      console.warn("Local index search failed (non-fatal):", e);
     }
-    if (localIndexResults.results.length > 0) engineResults.push(localIndexResults);
+    // Another page is worth asking for if some web engine that can serve
+    // one still filled (at least half of) the deepest page we fetched
+    const pagingEngines = new Set(selectedEngines.filter((e) => e.pageParams).map((e) => e.engine));
+    const hasMore = pageCount < MAX_RESULT_PAGES && finalResults.some(
+      (er) => pagingEngines.has(er.engine) && (er.last_page_count ?? er.results.length) >= RESULTS_PER_PAGE / 2
+    );
+
+    // Engines echo operator queries back in their own dialect, so only
+    // plain queries get a correction. Auxiliary sources never correct
+    // spelling, so they neither vote nor dissent.
+    const didYouMean = enforceOperators
+      ? null
+      : reconcileSpelling(finalResults.filter((er) => !AUXILIARY_SOURCES.includes(er.engine)), trimmedQuery);
 
-    // Always re-aggregate (even on cached engine results)
-    const deduplicated = deduplicateResults(engineResults);
-    const activeEngines = engineResults
-      .filter((er) => er.results.length > 0)
-      .map((er) => er.engine);
-    const merged = rankResults(deduplicated, method, activeEngines, sqmScores);
+    await publish({
+      status: "complete",
+      completed_at: new Date().toISOString(),
+    });
 
     const responseBody = JSON.stringify({
       success: true,
+      session_id: sessionId,
       query: trimmedQuery,
       aggregation_method: method,
       query_intent: intentResult.intent,
-      merged,
+      bangs: bangSelection.bangs,
+      warnings,
+      did_you_mean: didYouMean,
+      page: pageCount,
+      has_more: hasMore,
+      interleaving,
+      merged: applyExplicitFeedback(served, explicit),
+      blocked: summarizeBlocked(
+        [...deduplicateResults(finalResults).map((doc) => doc.url), ...explicit.pins.map((pin) => pin.url)],
+        explicit.blockedDomains
+      ),
       richBlocks,
-      engineResults: engineResults.map((er) => ({
+      engineResults: finalResults.map((er) => ({
         engine: er.engine,
         count: er.results.length,
         error: er.error,
         cached: er.cached,
+        timed_out: er.timed_out,
       })),
     });
 
@@ -827,16 +2387,18 @@ Deno.serve(async (req) => {
     // This runs AFTER the response is built so it doesn't slow down search.
     // We insert all unique result URLs into the crawl_queue table.
     (async () => {
+      if (OFFLINE) return;
       try {
         // Collect unique URLs with metadata
         const urlMap = new Map<string, { url: string; title: string; snippet: string; engines: string[]; priority: number }>();
-        for (const er of engineResults) {
-          if (er.engine === "learned" || er.engine === "local_index") continue;
+        for (const er of finalResults) {
+          if (AUXILIARY_SOURCES.includes(er.engine)) continue;
           for (const r of er.results) {
             if (!r.link) continue;
-            const key = r.link.replace(/\/+$/, "").toLowerCase();
+            const key = canonicalUrl(r.link);
             const existing = urlMap.get(key);
             if (existing) {
+              if (existing.engines.includes(er.engine)) continue;
               existing.engines.push(er.engine);
               existing.priority = existing.engines.length;
             } else {
@@ -850,32 +2412,32 @@ Deno.serve(async (req) => {
             }
           }
         }
-
-        // Check which URLs are already in web_pages (crawled recently)
-        const urls = Array.from(urlMap.values()).map((u) => u.url);
-        if (urls.length === 0) return;
-
-        const { data: existingPages } = await serviceClient
-          .from("web_pages")
-          .select("url")
-          .in("url", urls.slice(0, 200));
-
-        const existingUrls = new Set((existingPages || []).map((p: any) => p.url));
-
-        // Also check what's already queued
-        const { data: existingQueue } = await serviceClient
-          .from("crawl_queue")
-          .select("url")
-          .in("url", urls.slice(0, 200))
-          .in("status", ["pending", "processing"]);
-
-        const queuedUrls = new Set((existingQueue || []).map((q: any) => q.url));
+        if (urlMap.size === 0) return;
+        const keys = Array.from(urlMap.keys()).slice(0, 200);
+        const urls = keys.map((key) => urlMap.get(key)!.url);
+
+        // Canonical keys already crawled (web_pages) or queued. Rows are
+        // matched by url_key, and rows from before url_key by their raw
+        // URL, canonicalized here.
+        const knownKeys = async (table: "web_pages" | "crawl_queue", statuses?: string[]) => {
+          const lookups = [
+            serviceClient.from(table).select("url").in("url_key", keys),
+            serviceClient.from(table).select("url").in("url", urls),
+          ].map((lookup) => (statuses ? lookup.in("status", statuses) : lookup));
+          const rows = (await Promise.all(lookups)).flatMap(({ data }) => data || []);
+          return new Set(rows.map((row: { url: string }) => canonicalUrl(row.url)));
+        };
+        const [existingKeys, queuedKeys] = await Promise.all([
+          knownKeys("web_pages"),
+          knownKeys("crawl_queue", ["pending", "processing"]),
+        ]);
 
         // Insert only new URLs
-        const toInsert = Array.from(urlMap.values())
-          .filter((u) => !existingUrls.has(u.url) && !queuedUrls.has(u.url))
-          .map((u) => ({
+        const toInsert = Array.from(urlMap.entries())
+          .filter(([key]) => !existingKeys.has(key) && !queuedKeys.has(key))
+          .map(([key, u]) => ({
             url: u.url,
+            url_key: key,
             title: u.title,
             snippet: u.snippet,
             source_engine: u.engines[0],
@@ -907,6 +2469,9 @@ Deno.serve(async (req) => {
   } catch (error) {
     console.error("Multi-search error:", error);
     const msg = error instanceof Error ? error.message : "Search failed";
+    if (publishSession) {
+      await publishSession({ status: "failed", error_message: msg, completed_at: new Date().toISOString() });
+    }
     return new Response(JSON.stringify({ success: false, error: msg }), {
       status: 500,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -0,0 +1,88 @@
+/**
+ * Runs multi-search end to end in replay mode against the recorded
+ * fixtures in ./fixtures — no provider, no API key and no Supabase:
+ *
+ *   deno test --allow-env --allow-read supabase/functions/multi-search/replay_test.ts
+ *
+ * Record more fixtures with SEARCH_PROVIDER_MODE=record (ARCHITECTURE.md §6).
+ */
+
+import { assert, assertEquals } from "jsr:@std/assert@1";
+
+Deno.env.set("SEARCH_PROVIDER_MODE", "replay");
+// Replay mode never contacts the database; the client just needs a URL
+Deno.env.set("SUPABASE_URL", "http://127.0.0.1:54321");
+Deno.env.set("SUPABASE_ANON_KEY", "replay");
+Deno.env.set("SUPABASE_SERVICE_ROLE_KEY", "replay");
+
+// index.ts serves its handler on import; capture it instead
+type Handler = (req: Request) => Response | Promise<Response>;
+let handler: Handler | null = null;
+Deno.serve = ((h: Handler) => {
+  handler = h;
+  return {} as Deno.HttpServer;
+}) as unknown as typeof Deno.serve;
+await import("./index.ts");
+
+async function search(body: Record<string, unknown>) {
+  assert(handler, "multi-search did not register a handler");
+  const response = await handler(
+    new Request("http://localhost/multi-search", { method: "POST", body: JSON.stringify(body) })
+  );
+  return { status: response.status, data: await response.json() };
+}
+
+Deno.test("replays recorded engines and aggregates them", async () => {
+  const { status, data } = await search({
+    query: "Rust  async",
+    preferred_engines: ["google", "bing"],
+    aggregation_method: "borda",
+  });
+
+  assertEquals(status, 200);
+  assertEquals(data.success, true);
+  assertEquals(data.session_id, null);
+  assertEquals(
+    data.engineResults.map((er: { engine: string; count: number }) => [er.engine, er.count]),
+    [["google", 4], ["bing", 3]]
+  );
+
+  // tokio.rs and www.tokio.rs are one document, returned by both engines
+  const urls: string[] = data.merged.map((d: { url: string }) => d.url);
+  assertEquals(urls.length, 5);
+  assertEquals(urls.slice(0, 2).sort(), ["https://rust-lang.github.io/async-book/", "https://tokio.rs/"]);
+  assertEquals(data.merged[0].engines.length, 2);
+  assertEquals(data.merged[0].explanation.method, "borda");
+
+  // Related searches are the union across engines, shared ones first
+  assertEquals(data.richBlocks.related_searches[0].query, "tokio vs async-std");
+  assertEquals(data.richBlocks.related_questions.length, 1);
+  assertEquals(data.did_you_mean, null);
+});
+
+Deno.test("reports engines without a fixture as failed", async () => {
+  const { data } = await search({ query: "rust async", preferred_engines: ["google", "duckduckgo"] });
+
+  assertEquals(data.success, true);
+  const duckduckgo = data.engineResults.find((er: { engine: string }) => er.engine === "duckduckgo");
+  assert(duckduckgo?.error?.startsWith("No fixture recorded"));
+  assertEquals(data.merged.length, 4);
+});
+
+Deno.test("lists the built-in bangs without searching", async () => {
+  const { status, data } = await search({ list_bangs: true });
+
+  assertEquals(status, 200);
+  assertEquals(data.builtin_bangs.g, ["google"]);
+  assertEquals(data.builtin_bangs.gs, ["google_scholar"]);
+  assertEquals(data.builtin_bangs.local, ["local_index"]);
+});
+
+Deno.test("offers no deeper page when no engine can serve one", async () => {
+  // DuckDuckGo has no pageParams: a full first page says nothing about page 2
+  const { data } = await search({ query: "tokio runtime", preferred_engines: ["duckduckgo"] });
+
+  assertEquals(data.success, true);
+  assertEquals(data.merged.length, 12);
+  assertEquals(data.has_more, false);
+});
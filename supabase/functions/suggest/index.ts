@@ -0,0 +1,174 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+/**
+ * suggest: query autocomplete for the search bar.
+ *
+ * Accepts: { q: string, limit?: number }
+ * Returns: { success, suggestions: [{ text, sources }] }
+ *
+ * Blends three sources, matched on the normalized prefix (titles on any
+ * word) and merged by normalized text, each adding to a suggestion's score:
+ *   history — the caller's own past queries: 3 + log2(1 + times searched),
+ *             plus up to 1 for recency (halving every 7 days)
+ *   popular — popular_queries: queries at least 3 different users searched,
+ *             without bangs or operators (refresh_popular_queries()):
+ *             1 + log2(1 + users)
+ *   learned — titles of the caller's feedback_learning_index documents:
+ *             1 + learned_score (the best of a document's per-query rows)
+ * Guests (no or invalid token) only get popular suggestions.
+ */
+
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 20;
+const MIN_PREFIX = 2;
+const MAX_SUGGESTION_CHARS = 80;
+const RECENCY_HALF_LIFE_DAYS = 7;
+
+type Source = "history" | "popular" | "learned";
+
+interface Suggestion {
+  text: string;
+  sources: Source[];
+  score: number;
+}
+
+function normalizeQuery(q: string): string {
+  return q.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/** Escapes LIKE wildcards so the prefix matches literally */
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+/** Drops a trailing " | Site name" / " - Site name" and overly long tails */
+function titleToQuery(title: string): string {
+  const parts = title.split(/\s+[|–—-]\s+/);
+  const core = (parts.length > 1 ? parts.slice(0, -1).join(" ") : title).trim();
+  return core.length > MAX_SUGGESTION_CHARS ? core.slice(0, MAX_SUGGESTION_CHARS).replace(/\s+\S*$/, "") : core;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceKey);
+    let userId: string | null = null;
+
+    if (authHeader && authHeader.startsWith("Bearer ")) {
+      try {
+        const authClient = createClient(supabaseUrl, anonKey);
+        const token = authHeader.replace("Bearer ", "");
+        const { data: { user }, error: authError } = await authClient.auth.getUser(token);
+        if (!authError && user) userId = user.id;
+      } catch (e) {
+        console.warn("Auth validation failed, suggesting as guest:", e);
+      }
+    }
+
+    const { q, limit } = await req.json().catch(() => ({}));
+    const prefix = typeof q === "string" ? normalizeQuery(q) : "";
+    const maxResults = Math.min(Math.max(Math.floor(Number(limit)) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    if (prefix.length < MIN_PREFIX || prefix.length > 200) {
+      return new Response(JSON.stringify({ success: true, suggestions: [] }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const pattern = `${escapeLike(prefix)}%`;
+    const [historyRes, popularRes, learnedRes] = await Promise.all([
+      userId
+        ? supabase
+            .from("search_history")
+            .select("query, created_at")
+            .eq("user_id", userId)
+            .ilike("query", pattern)
+            .order("created_at", { ascending: false })
+            .limit(100)
+        : Promise.resolve({ data: [] }),
+      supabase
+        .from("popular_queries")
+        .select("query, users")
+        .like("query", pattern)
+        .order("users", { ascending: false })
+        .limit(50),
+      userId
+        ? supabase
+            .from("feedback_learning_index")
+            .select("url, title, learned_score")
+            .eq("user_id", userId)
+            .ilike("title", `%${escapeLike(prefix)}%`)
+            .order("learned_score", { ascending: false })
+            .limit(40)
+        : Promise.resolve({ data: [] }),
+    ]);
+
+    const suggestions = new Map<string, Suggestion>();
+    const add = (text: string, source: Source, score: number) => {
+      const key = normalizeQuery(text);
+      if (!key.startsWith(prefix) && source !== "learned") return;
+      if (key === prefix) return; // nothing to complete
+      const existing = suggestions.get(key);
+      if (existing) {
+        existing.score += score;
+        if (!existing.sources.includes(source)) existing.sources.push(source);
+      } else {
+        suggestions.set(key, { text: text.trim(), sources: [source], score });
+      }
+    };
+
+    // 1. The user's own history, by frequency and recency
+    const history = new Map<string, { text: string; count: number; latest: number }>();
+    for (const row of (historyRes.data || []) as { query: string; created_at: string }[]) {
+      const key = normalizeQuery(row.query);
+      const entry = history.get(key);
+      if (entry) entry.count++;
+      else history.set(key, { text: row.query, count: 1, latest: new Date(row.created_at).getTime() });
+    }
+    for (const { text, count, latest } of history.values()) {
+      const ageDays = Math.max(Date.now() - latest, 0) / 86_400_000;
+      add(text, "history", 3 + Math.log2(1 + count) + Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS));
+    }
+
+    // 2. Popular queries, by how many different users searched them
+    for (const row of (popularRes.data || []) as { query: string; users: number }[]) {
+      add(row.query, "popular", 1 + Math.log2(1 + row.users));
+    }
+
+    // 3. Titles of documents the user engaged with
+    // The matrix has a row per query a document was rated for; rows come
+    // best-first, so the first one per URL counts
+    const learnedUrls = new Set<string>();
+    for (const row of (learnedRes.data || []) as { url: string; title: string | null; learned_score: number }[]) {
+      if (learnedUrls.has(row.url)) continue;
+      learnedUrls.add(row.url);
+      const text = row.title ? titleToQuery(row.title) : "";
+      if (text) add(text, "learned", 1 + row.learned_score);
+    }
+
+    const ranked = [...suggestions.values()]
+      .sort((a, b) => b.score - a.score || a.text.localeCompare(b.text))
+      .slice(0, maxResults)
+      .map(({ text, sources }) => ({ text, sources }));
+
+    return new Response(JSON.stringify({ success: true, suggestions: ranked }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("suggest error:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,152 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { trainLtrModel } from "../_shared/ltr.ts";
+import { loadLoggedSessions } from "../_shared/sessions.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+/**
+ * Trains the caller's learning-to-rank model (aggregation method "ltr").
+ *
+ * Rebuilds the user's latest logged sessions with feedback, turns each into
+ * preference pairs (a document with higher importance σ(d) should outrank
+ * one with lower importance), and fits a linear pairwise model over
+ * per-engine rank, engine agreement, domain and source-score features.
+ * The model is refitted from scratch each run and upserted into ltr_models.
+ *
+ * The frontend calls this after every search, so a refit only happens when
+ * feedback has changed since the model was trained, and at most once per
+ * LTR_MIN_RETRAIN_MINUTES (default 60); { force: true } skips the interval.
+ */
+
+const TRAINING_SESSIONS = 100;
+const MIN_RETRAIN_MS = (Number(Deno.env.get("LTR_MIN_RETRAIN_MINUTES")) || 60) * 60_000;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceKey);
+
+    // Verify user by calling the Auth REST API directly to avoid local ES256 decoding issues
+    const authResponse = await fetch(`${supabaseUrl}/auth/v1/user`, {
+      headers: {
+        Authorization: authHeader,
+        apikey: Deno.env.get("SUPABASE_ANON_KEY")!,
+      },
+    });
+
+    if (!authResponse.ok) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const user = await authResponse.json();
+    if (!user || !user.id) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    // 1. Skip the refit when the current model is recent or nothing changed since
+    const { data: current } = await supabase
+      .from("ltr_models")
+      .select("updated_at")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    const trainedAt = (current?.updated_at as string | undefined) ?? null;
+    let feedbackQuery = supabase
+      .from("user_feedback")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id);
+    if (trainedAt) feedbackQuery = feedbackQuery.gt("updated_at", trainedAt);
+    const { count: changed } = await feedbackQuery;
+    const recent = !!trainedAt && Date.now() - Date.parse(trainedAt) < MIN_RETRAIN_MS;
+
+    if (!changed || (recent && body?.force !== true)) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          skipped: true,
+          message: changed ? "Model was trained recently" : "No new feedback since the last training",
+          trained_at: trainedAt,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // 2. Fetch user weights
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("weight_t, weight_p, weight_s, weight_b, weight_e, weight_c, reading_speed")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile) {
+      return new Response(JSON.stringify({ error: "Profile not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // 3. Rebuild the latest logged sessions that have feedback. The model is
+    //    stamped with the time loading started, so feedback written while it
+    //    trains still counts as new next time.
+    const startedAt = new Date().toISOString();
+    const sessions = await loadLoggedSessions(supabase, user.id, TRAINING_SESSIONS, profile);
+    if (sessions.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: "No feedback to train on", pairs: 0, sessions: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // 4. Fit and store the model
+    const model = trainLtrModel(sessions);
+    const { error: upsertError } = await supabase.from("ltr_models").upsert({
+      user_id: user.id,
+      weights: model.weights,
+      pairs: model.pairs,
+      sessions: sessions.length,
+      updated_at: startedAt,
+    });
+    if (upsertError) throw upsertError;
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        pairs: model.pairs,
+        sessions: sessions.length,
+        features: Object.keys(model.weights).length,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("train-ltr error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
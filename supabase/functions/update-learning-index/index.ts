@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { canonicalUrl } from "../_shared/url.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,12 +14,43 @@ const corsHeaders = {
  * Then generates an embedding for the document via the generate-embedding function
  * and stores it alongside the learned_score in feedback_learning_index.
  *
+ * feedback_learning_index is the relevance matrix of N_PLUS_ONE_PLAN.md:
+ * one row per (user, normalized query, url), so a document's score for
+ * one query doesn't carry over to another. Documents shown but ignored
+ * are penalized in their row for this query; one the user only rated
+ * under other queries gets a zero row here, so semantic matching (see
+ * match_learned_documents) no longer brings it back for this query.
+ *
+ * Explicit judgments (result_judgments, the thumbs on result cards) for
+ * this query override the implicit signals: "relevant" counts as an
+ * importance of at least EXPLICIT_RELEVANT_IMPORTANCE, "not_relevant"
+ * zeroes the document's row for the query. A "relevant" judgment is
+ * applied once (result_judgments.applied_at), in the first session that
+ * shows the document after it was recorded, so it doesn't reset the
+ * row's decay every session; judged documents are never penalized.
+ *
+ * learned_score decays with time: it holds the score as of score_updated_at
+ * and halves every profiles.learning_half_life_days from then on (0 = never).
+ * Existing scores are brought current before they are combined with new
+ * evidence, and every session also persists the decay of the user's
+ * untouched rows (decay_learned_scores).
+ *
  * Text-chunking strategy:
  *   - Short text (≤ 2000 chars): embed directly
  *   - Long text (> 2000 chars): split into overlapping chunks (~1500 chars,
  *     200-char overlap), embed each, average the vectors, and L2-normalize
  */
 
+// Importance given to a document judged relevant: with µ = 0.1 a single
+// judgment moves its score at least halfway to 1
+const EXPLICIT_RELEVANT_IMPORTANCE = 10;
+
+interface JudgmentRow {
+  url: string;
+  judgment: "relevant" | "not_relevant";
+  applied_at: string | null;                  // null until a session applied it
+}
+
 // ─── Text Chunking ─────────────────────────────────────────────────
 
 const CHUNK_SIZE = 1500;
@@ -153,6 +185,24 @@ async function generateEmbeddingViaFunction(
   }
 }
 
+// ─── Relevance Matrix ───────────────────────────────────────────────
+
+/** The matrix's query key; must match normalizeQuery() in multi-search */
+function normalizeQuery(q: string): string {
+  return q.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// ─── Score Decay ────────────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Mirrors decayed_learned_score() in SQL */
+function decayedScore(score: number, asOf: string | null, halfLifeDays: number): number {
+  if (!asOf || !(halfLifeDays > 0)) return score;
+  const ageDays = Math.max(Date.now() - new Date(asOf).getTime(), 0) / DAY_MS;
+  return score * Math.pow(0.5, ageDays / halfLifeDays);
+}
+
 // ─── Main Handler ───────────────────────────────────────────────────
 
 Deno.serve(async (req) => {
@@ -208,7 +258,7 @@ Deno.serve(async (req) => {
     const [profileRes, searchResultsRes, historyRes] = await Promise.all([
       supabase
         .from("profiles")
-        .select("weight_v, weight_t, weight_p, weight_s, weight_b, weight_e, weight_c, reading_speed")
+        .select("weight_v, weight_t, weight_p, weight_s, weight_b, weight_e, weight_c, reading_speed, learning_half_life_days")
         .eq("id", user.id)
         .single(),
       supabase
@@ -230,6 +280,12 @@ Deno.serve(async (req) => {
       });
     }
 
+    // Persist the time decay of the user's learned scores (rows brought
+    // current within the last day are skipped)
+    const { error: decayError } = await supabase.rpc("decay_learned_scores", { _user_id: user.id });
+    if (decayError) console.warn("Learned score decay failed:", decayError.message);
+    const halfLifeDays = profile.learning_half_life_days ?? 0;
+
     const searchResults = searchResultsRes.data;
     if (!searchResults || searchResults.length === 0) {
       return new Response(JSON.stringify({ success: true, updated: 0 }), {
@@ -237,25 +293,43 @@ Deno.serve(async (req) => {
       });
     }
 
-    // Fetch feedback
+    const queryKey = normalizeQuery(historyRes.data?.query || "");
+    if (!queryKey) {
+      return new Response(JSON.stringify({ success: true, updated: 0 }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Fetch implicit feedback + explicit judgments for this query
     const resultIds = searchResults.map((r) => r.id);
-    const { data: feedbackRows } = await supabase
-      .from("user_feedback")
-      .select("*")
-      .in("search_result_id", resultIds)
-      .eq("user_id", user.id);
+    const [{ data: feedbackRows }, { data: judgmentRows }] = await Promise.all([
+      supabase
+        .from("user_feedback")
+        .select("*")
+        .in("search_result_id", resultIds)
+        .eq("user_id", user.id),
+      supabase
+        .from("result_judgments")
+        .select("url, judgment, applied_at")
+        .eq("user_id", user.id)
+        .eq("query_normalized", queryKey),
+    ]);
 
-    if (!feedbackRows || feedbackRows.length === 0) {
+    if ((!feedbackRows || feedbackRows.length === 0) && (!judgmentRows || judgmentRows.length === 0)) {
       return new Response(JSON.stringify({ success: true, updated: 0 }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    const fbMap = new Map(feedbackRows.map((f) => [f.search_result_id, f]));
-    const queryText = historyRes.data?.query || "";
+    const fbMap = new Map((feedbackRows || []).map((f) => [f.search_result_id, f]));
+    const judgments = new Map(
+      ((judgmentRows || []) as JudgmentRow[]).map((j) => [canonicalUrl(j.url), j])
+    );
+    // Judgments applied in this run, marked applied at the end
+    const appliedJudgmentUrls: string[] = [];
 
     // Calculate c_j_total (sum of copy-paste chars across ALL feedback in this session)
-    const cTotal = feedbackRows.reduce((sum, f) => sum + (f.copy_paste_chars ?? 0), 0);
+    const cTotal = (feedbackRows || []).reduce((sum, f) => sum + (f.copy_paste_chars ?? 0), 0);
 
     // Track URLs that were interacted with so we can penalize the rest
     const interactedUrls = new Set<string>();
@@ -263,7 +337,7 @@ Deno.serve(async (req) => {
     // Deduplicate by URL
     const urlResultMap = new Map<string, { url: string; title: string; snippet: string | null; resultIds: string[] }>();
     for (const sr of searchResults) {
-      const normalized = sr.url.replace(/\/+$/, "").toLowerCase();
+      const normalized = canonicalUrl(sr.url);
       const existing = urlResultMap.get(normalized);
       if (existing) {
         existing.resultIds.push(sr.id);
@@ -274,7 +348,7 @@ Deno.serve(async (req) => {
 
     let updated = 0;
 
-    for (const [, doc] of urlResultMap) {
+    for (const [key, doc] of urlResultMap) {
       let bestFb = null;
       for (const rid of doc.resultIds) {
         const fb = fbMap.get(rid);
@@ -282,36 +356,71 @@ Deno.serve(async (req) => {
           bestFb = fb;
         }
       }
-      if (!bestFb) continue;
+      const judged = judgments.get(key);
+      if (!bestFb && !judged) continue;
 
       interactedUrls.add(doc.url);
+      // An applied "relevant" judgment has already moved the score
+      const judgment = judged?.judgment === "relevant" && judged.applied_at ? undefined : judged?.judgment;
+
+      if (judgment === "not_relevant") {
+        // Judged irrelevant for this query, whatever the implicit signals say
+        const now = new Date().toISOString();
+        const { error: zeroError } = await supabase
+          .from("feedback_learning_index")
+          .upsert(
+            {
+              user_id: user.id,
+              query_normalized: queryKey,
+              url: doc.url,
+              title: doc.title,
+              snippet: doc.snippet,
+              learned_score: 0,
+              ignored_count: 0,
+              updated_at: now,
+              score_updated_at: now,
+            },
+            { onConflict: "user_id,query_normalized,url" }
+          );
+        if (zeroError) {
+          console.error(`Learning index upsert failed for ${doc.url}:`, zeroError.message);
+          continue;
+        }
+        if (judged && !judged.applied_at) appliedJudgmentUrls.push(judged.url);
+        updated++;
+        continue;
+      }
 
-      // V = 1 / 2^(v_j - 1)
-      const V = bestFb.click_order ? 1 / Math.pow(2, bestFb.click_order - 1) : 0;
-
-      // T = t_j / t_j_max
-      const pageSizeBytes = (bestFb as any).page_size_bytes ?? 0;
-      const readingSpeed = profile.reading_speed || 10;
-      const tMax = pageSizeBytes > 0 ? (pageSizeBytes / readingSpeed) * 1000 : 0;
-      const T = tMax > 0 ? Math.min((bestFb.dwell_time_ms ?? 0) / tMax, 1.0) : 0;
-
-      const P = bestFb.printed ? 1 : 0;
-      const S = bestFb.saved ? 1 : 0;
-      const B = bestFb.bookmarked ? 1 : 0;
-      const E = bestFb.emailed ? 1 : 0;
-
-      // C = c_j / c_j_total
-      const C = cTotal > 0 ? (bestFb.copy_paste_chars ?? 0) / cTotal : 0;
-
-      // wV must be 1
-      const importance =
-        1.0 * V +
-        profile.weight_t * T +
-        profile.weight_p * P +
-        profile.weight_s * S +
-        profile.weight_b * B +
-        profile.weight_e * E +
-        profile.weight_c * C;
+      let importance = 0;
+      if (bestFb) {
+        // V = 1 / 2^(v_j - 1)
+        const V = bestFb.click_order ? 1 / Math.pow(2, bestFb.click_order - 1) : 0;
+
+        // T = t_j / t_j_max
+        const pageSizeBytes = (bestFb as any).page_size_bytes ?? 0;
+        const readingSpeed = profile.reading_speed || 10;
+        const tMax = pageSizeBytes > 0 ? (pageSizeBytes / readingSpeed) * 1000 : 0;
+        const T = tMax > 0 ? Math.min((bestFb.dwell_time_ms ?? 0) / tMax, 1.0) : 0;
+
+        const P = bestFb.printed ? 1 : 0;
+        const S = bestFb.saved ? 1 : 0;
+        const B = bestFb.bookmarked ? 1 : 0;
+        const E = bestFb.emailed ? 1 : 0;
+
+        // C = c_j / c_j_total
+        const C = cTotal > 0 ? (bestFb.copy_paste_chars ?? 0) / cTotal : 0;
+
+        // wV must be 1
+        importance =
+          1.0 * V +
+          profile.weight_t * T +
+          profile.weight_p * P +
+          profile.weight_s * S +
+          profile.weight_b * B +
+          profile.weight_e * E +
+          profile.weight_c * C;
+      }
+      if (judgment === "relevant") importance = Math.max(importance, EXPLICIT_RELEVANT_IMPORTANCE);
 
       if (importance <= 0) continue;
 
@@ -325,19 +434,22 @@ Deno.serve(async (req) => {
         "RETRIEVAL_DOCUMENT"
       );
 
-      // Upsert into feedback_learning_index
+      // Upsert this query's row of the relevance matrix
       const { data: existing } = await supabase
         .from("feedback_learning_index")
-        .select("id, learned_score, query_matches")
-        .eq("url", doc.url)
+        .select("learned_score, score_updated_at")
         .eq("user_id", user.id)
+        .eq("query_normalized", queryKey)
+        .eq("url", doc.url)
         .maybeSingle();
 
+      const now = new Date().toISOString();
       const updatePayload: Record<string, any> = {
         learned_score: importance,
         title: doc.title,
         snippet: doc.snippet,
-        updated_at: new Date().toISOString(),
+        updated_at: now,
+        score_updated_at: now,
       };
 
       if (embedding) {
@@ -345,59 +457,79 @@ Deno.serve(async (req) => {
         updatePayload.embedding = `[${embedding.join(",")}]`;
       }
 
-      if (existing) {
-        // Exact formula: New = (Old + (µ * sigma)) / (1 + (µ * sigma))
-        const mu = 0.1; // learning rate
-        const updateTerm = mu * importance;
-        updatePayload.learned_score = (existing.learned_score + updateTerm) / (1 + updateTerm);
-        
-        // Reset ignored_count since it was interacted with
-        updatePayload.ignored_count = 0;
+      // Exact formula: New = (Old + (µ * sigma)) / (1 + (µ * sigma)),
+      // with Old = 0 for a first-time interaction
+      const mu = 0.1; // learning rate
+      const updateTerm = mu * importance;
+      const current = existing
+        ? decayedScore(existing.learned_score, existing.score_updated_at, halfLifeDays)
+        : 0;
+      updatePayload.learned_score = (current + updateTerm) / (1 + updateTerm);
 
-        const queries: string[] = existing.query_matches || [];
-        if (queryText && !queries.includes(queryText)) {
-          queries.push(queryText);
-        }
-        updatePayload.query_matches = queries;
+      // Reset ignored_count since it was interacted with
+      updatePayload.ignored_count = 0;
 
-        await supabase
-          .from("feedback_learning_index")
-          .update(updatePayload)
-          .eq("id", existing.id);
-      } else {
-        // Initial score for first-time interaction
-        const mu = 0.1;
-        updatePayload.learned_score = (0 + (mu * importance)) / (1 + (mu * importance));
-        
-        await supabase.from("feedback_learning_index").insert({
-          url: doc.url,
-          user_id: user.id,
-          query_matches: queryText ? [queryText] : [],
-          ignored_count: 0,
-          ...updatePayload,
-        });
+      const { error: upsertError } = await supabase
+        .from("feedback_learning_index")
+        .upsert(
+          { user_id: user.id, query_normalized: queryKey, url: doc.url, ...updatePayload },
+          { onConflict: "user_id,query_normalized,url" }
+        );
+      if (upsertError) {
+        console.error(`Learning index upsert failed for ${doc.url}:`, upsertError.message);
+        continue;
       }
+      if (judged && !judged.applied_at) appliedJudgmentUrls.push(judged.url);
       updated++;
     }
 
+    if (appliedJudgmentUrls.length > 0) {
+      const { error: appliedError } = await supabase
+        .from("result_judgments")
+        .update({ applied_at: new Date().toISOString() })
+        .eq("user_id", user.id)
+        .eq("query_normalized", queryKey)
+        .in("url", appliedJudgmentUrls)
+        .is("applied_at", null);
+      if (appliedError) console.error("Failed to mark judgments applied:", appliedError.message);
+    }
+
     // ─── Penalization for Ignored Documents ─────────────────────────
     // For all documents returned in the search but NOT interacted with,
-    // apply an exponential penalty to their learned_score.
+    // apply an exponential penalty to their learned_score for this query.
     for (const [, doc] of urlResultMap) {
       if (interactedUrls.has(doc.url)) continue;
 
-      const { data: existing } = await supabase
+      const { data: rows } = await supabase
         .from("feedback_learning_index")
-        .select("id, learned_score, ignored_count")
-        .eq("url", doc.url)
+        .select("id, query_normalized, learned_score, score_updated_at, ignored_count")
         .eq("user_id", user.id)
-        .maybeSingle();
+        .eq("url", doc.url);
+      if (!rows || rows.length === 0) continue;
 
-      if (existing && existing.learned_score > 0) {
+      const existing = rows.find((r) => r.query_normalized === queryKey);
+      if (!existing) {
+        // Only rated under other queries: record it as irrelevant here
+        const now = new Date().toISOString();
+        await supabase.from("feedback_learning_index").insert({
+          user_id: user.id,
+          query_normalized: queryKey,
+          url: doc.url,
+          title: doc.title,
+          snippet: doc.snippet,
+          learned_score: 0,
+          ignored_count: 1,
+          updated_at: now,
+          score_updated_at: now,
+        });
+        continue;
+      }
+
+      if (existing.learned_score > 0) {
         const newIgnoredCount = (existing.ignored_count || 0) + 1;
         // Exponential decay penalty (e.g., * 0.9^count)
         const decayFactor = Math.pow(0.9, newIgnoredCount);
-        let newScore = existing.learned_score * decayFactor;
+        let newScore = decayedScore(existing.learned_score, existing.score_updated_at, halfLifeDays) * decayFactor;
         
         // Bottom out at 0
         if (newScore < 0.01) newScore = 0;
@@ -407,12 +539,17 @@ Deno.serve(async (req) => {
           .update({
             learned_score: newScore,
             ignored_count: newIgnoredCount,
-            updated_at: new Date().toISOString()
+            updated_at: new Date().toISOString(),
+            score_updated_at: new Date().toISOString(),
           })
           .eq("id", existing.id);
       }
     }
 
+    // The community engine compares users by their learned-document centroid
+    const { error: centroidError } = await supabase.rpc("refresh_learning_centroids", { _user_id: user.id });
+    if (centroidError) console.warn("Learning centroid refresh failed:", centroidError.message);
+
     return new Response(JSON.stringify({ success: true, updated }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
@@ -0,0 +1,10 @@
+-- ============================================================
+-- PersonaSearch: Custom Bangs Migration
+-- Adds: custom_bangs on profiles (user-defined !bang shortcuts)
+-- Safe to run multiple times (idempotent)
+-- ============================================================
+
+-- Maps a bang name (without the "!") to the sources it routes to, e.g.
+-- {"gh": ["google"], "mine": ["learned", "local_index"]}.
+-- Entries override the built-in bangs in multi-search.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS custom_bangs JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,9 @@
+-- ============================================================
+-- PersonaSearch: RRF Constant Migration
+-- Adds: rrf_k on profiles (k for Reciprocal Rank Fusion)
+-- Safe to run multiple times (idempotent)
+-- ============================================================
+
+-- Used when the aggregation method is "rrf": score = Σ 1 / (k + rank).
+-- multi-search clamps it to 1..1000 and falls back to 60.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS rrf_k INTEGER NOT NULL DEFAULT 60;
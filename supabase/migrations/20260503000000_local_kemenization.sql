@@ -0,0 +1,9 @@
+-- ============================================================
+-- PersonaSearch: Local Kemenization Migration
+-- Adds: local_kemenization on profiles (post-pass over any aggregator)
+-- Safe to run multiple times (idempotent)
+-- ============================================================
+
+-- When true, multi-search refines the chosen aggregation method's ranking
+-- so that no adjacent pair contradicts the engines' majority preference.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS local_kemenization BOOLEAN NOT NULL DEFAULT false;
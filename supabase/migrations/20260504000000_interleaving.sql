@@ -0,0 +1,54 @@
+-- ============================================================
+-- PersonaSearch: Interleaving Experiments Migration
+-- Adds: interleaving_impressions table, record_interleaving_click()
+-- Safe to run multiple times (idempotent)
+-- ============================================================
+
+-- 1. One row per interleaved result list shown to a user. multi-search
+--    inserts it (service role) when it team-draft interleaves two
+--    aggregation methods, with the team ('a' or 'b') that contributed
+--    each shown URL; clicks on results contributed by method_a / method_b
+--    are counted in clicks_a / clicks_b. The method with more clicks wins
+--    the impression.
+CREATE TABLE IF NOT EXISTS public.interleaving_impressions (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id       UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  query         TEXT NOT NULL,
+  method_a      TEXT NOT NULL,
+  method_b      TEXT NOT NULL,
+  teams         JSONB NOT NULL DEFAULT '{}',   -- shown URL → 'a' | 'b'
+  clicks_a      INTEGER NOT NULL DEFAULT 0,
+  clicks_b      INTEGER NOT NULL DEFAULT 0,
+  clicked_urls  TEXT[] NOT NULL DEFAULT '{}',  -- each URL is credited once
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_interleaving_user    ON public.interleaving_impressions (user_id);
+CREATE INDEX IF NOT EXISTS idx_interleaving_methods ON public.interleaving_impressions (method_a, method_b);
+
+ALTER TABLE public.interleaving_impressions ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  DROP POLICY IF EXISTS "Users read own impressions" ON public.interleaving_impressions;
+  DROP POLICY IF EXISTS "Admins read impressions" ON public.interleaving_impressions;
+  CREATE POLICY "Users read own impressions" ON public.interleaving_impressions
+    FOR SELECT USING (auth.uid() = user_id);
+  CREATE POLICY "Admins read impressions" ON public.interleaving_impressions
+    FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+END $$;
+
+-- 2. Credits a click to the team that contributed the clicked URL, as
+--    recorded with the impression; the client only says which URL it
+--    clicked. Only the impression's owner can credit it, URLs that were not
+--    shown and repeat clicks on the same URL are ignored.
+CREATE OR REPLACE FUNCTION public.record_interleaving_click(_impression_id UUID, _url TEXT)
+RETURNS void LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+  UPDATE public.interleaving_impressions
+  SET clicks_a = clicks_a + CASE WHEN teams ->> _url = 'a' THEN 1 ELSE 0 END,
+      clicks_b = clicks_b + CASE WHEN teams ->> _url = 'b' THEN 1 ELSE 0 END,
+      clicked_urls = array_append(clicked_urls, _url)
+  WHERE id = _impression_id
+    AND user_id = auth.uid()
+    AND teams ->> _url IN ('a', 'b')
+    AND NOT (_url = ANY(clicked_urls));
+$$;
@@ -0,0 +1,29 @@
+-- ============================================================
+-- PersonaSearch: Learning-to-Rank Migration
+-- Adds: search_results.source_score, ltr_models table
+-- Safe to run multiple times (idempotent)
+-- ============================================================
+
+-- 1. The source's own relevance score for a logged result, where it has
+--    one (learned_score from the personalized index, similarity from the
+--    local web index). Used as an LTR feature when training.
+ALTER TABLE public.search_results ADD COLUMN IF NOT EXISTS source_score REAL;
+
+-- 2. One pairwise linear ranking model per user, fitted by the train-ltr
+--    edge function (service role) from the user's logged sessions and
+--    feedback. weights maps sparse feature names to their weight.
+CREATE TABLE IF NOT EXISTS public.ltr_models (
+  user_id     UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  weights     JSONB NOT NULL DEFAULT '{}',
+  pairs       INTEGER NOT NULL DEFAULT 0,  -- training pairs
+  sessions    INTEGER NOT NULL DEFAULT 0,  -- sessions with feedback used
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ltr_models ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  DROP POLICY IF EXISTS "Users read own ltr model" ON public.ltr_models;
+  CREATE POLICY "Users read own ltr model" ON public.ltr_models
+    FOR SELECT USING (auth.uid() = user_id);
+END $$;
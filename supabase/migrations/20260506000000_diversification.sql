@@ -0,0 +1,13 @@
+-- ============================================================
+-- PersonaSearch: Result Diversification Migration
+-- Adds: diversify, mmr_lambda, domain_cap on profiles
+-- Safe to run multiple times (idempotent)
+-- ============================================================
+
+-- When diversify is true, multi-search re-orders the aggregated results
+-- with maximal marginal relevance: mmr_lambda trades the method's order
+-- (1) against novelty (0), and domain_cap demotes results beyond that many
+-- per domain (0 = no cap). multi-search clamps both.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS diversify   BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS mmr_lambda  REAL    NOT NULL DEFAULT 0.7;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS domain_cap  INTEGER NOT NULL DEFAULT 3;
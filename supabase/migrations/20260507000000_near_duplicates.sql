@@ -0,0 +1,10 @@
+-- ============================================================
+-- PersonaSearch: Near-Duplicate Clustering Migration
+-- Adds: simhash on web_pages
+-- Safe to run multiple times (idempotent)
+-- ============================================================
+
+-- 64-bit SimHash of extracted_text as 16 hex digits, written by crawl-page.
+-- multi-search folds results whose signatures differ in only a few bits
+-- (or whose content_hash matches) into one cluster.
+ALTER TABLE public.web_pages ADD COLUMN IF NOT EXISTS simhash TEXT;
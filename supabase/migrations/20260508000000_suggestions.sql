@@ -0,0 +1,71 @@
+-- ============================================================
+-- PersonaSearch: Query Suggestions Migration
+-- Adds: popular_queries table, suggestion_query(), refresh_popular_queries(),
+--       prefix-search indexes for the suggest edge function
+-- Safe to run multiple times (idempotent)
+-- ============================================================
+
+-- 1. The text a search_history query is suggested as: lowercase, without
+--    bangs (!g), operators (site:…, -site:…, filetype:…), excluded terms
+--    (-word) or quotes, whitespace collapsed as normalizeQuery() does.
+CREATE OR REPLACE FUNCTION public.suggestion_query(_query text)
+RETURNS text LANGUAGE sql IMMUTABLE AS $$
+  SELECT btrim(regexp_replace(
+    regexp_replace(
+      regexp_replace(lower(_query), '(^|\s)(!\S+|-?[a-z]+:\S+|-\S+)', ' ', 'g'),
+      '"', '', 'g'),
+    '\s+', ' ', 'g'));
+$$;
+
+-- 2. Queries searched by at least 3 different users over the last 90
+--    days, counted per user rather than per search, so no suggestion can
+--    reveal one user's history. Rebuilt by refresh_popular_queries();
+--    only the service role (suggest) reads it.
+CREATE TABLE IF NOT EXISTS public.popular_queries (
+  query         TEXT PRIMARY KEY,
+  users         INTEGER NOT NULL,
+  refreshed_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.popular_queries ENABLE ROW LEVEL SECURITY;
+
+-- suggest matches typed prefixes with LIKE 'prefix%'; a plain btree only
+-- serves that under the C collation, text_pattern_ops always does.
+CREATE INDEX IF NOT EXISTS idx_popular_queries_prefix
+  ON public.popular_queries (query text_pattern_ops);
+
+-- 3. Rebuilds popular_queries; min_users is never below 3. Returns the
+--    number of queries kept. Service role only.
+CREATE OR REPLACE FUNCTION public.refresh_popular_queries(_min_users integer DEFAULT 3)
+RETURNS integer LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  kept integer;
+BEGIN
+  DELETE FROM popular_queries;
+  INSERT INTO popular_queries (query, users)
+  SELECT q.query, count(DISTINCT q.user_id)::int
+  FROM (
+    SELECT suggestion_query(sh.query) AS query, sh.user_id
+    FROM search_history sh
+    WHERE sh.created_at > now() - interval '90 days'
+  ) q
+  WHERE q.query <> ''
+  GROUP BY q.query
+  HAVING count(DISTINCT q.user_id) >= GREATEST(_min_users, 3);
+  GET DIAGNOSTICS kept = ROW_COUNT;
+  RETURN kept;
+END $$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_popular_queries(integer) FROM PUBLIC, anon, authenticated;
+
+-- 4. Hourly refresh where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('refresh-popular-queries', '15 * * * *', 'SELECT public.refresh_popular_queries()');
+  END IF;
+END $$;
+
+-- The user's own history is read newest first
+CREATE INDEX IF NOT EXISTS idx_search_history_user_created
+  ON public.search_history (user_id, created_at DESC);
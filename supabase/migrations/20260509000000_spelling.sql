@@ -0,0 +1,10 @@
+-- ============================================================
+-- PersonaSearch: Spelling Correction Migration
+-- Adds: auto_correct_spelling on profiles
+-- Safe to run multiple times (idempotent)
+-- ============================================================
+
+-- When true, the search page re-runs a query with multi-search's
+-- did_you_mean correction if every engine that answered reported it,
+-- and offers the original query as "Search instead for". Opt-in.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS auto_correct_spelling BOOLEAN NOT NULL DEFAULT false;
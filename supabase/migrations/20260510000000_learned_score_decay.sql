@@ -0,0 +1,105 @@
+-- ============================================================
+-- PersonaSearch: Learned Score Decay Migration
+-- Adds: feedback_learning_index.score_updated_at,
+--       profiles.learning_half_life_days,
+--       decayed_learned_score(), decay_learned_scores(),
+--       match_learned_documents() returning decayed scores
+-- Safe to run multiple times (idempotent)
+-- ============================================================
+
+SET search_path TO 'public', 'extensions';
+
+-- 1. learned_score is the score as of score_updated_at; from then on it
+--    halves every learning_half_life_days (0 = never decays).
+--    updated_at also moves when a row is only re-embedded or renamed, so
+--    it can't serve as the decay clock.
+ALTER TABLE public.feedback_learning_index ADD COLUMN IF NOT EXISTS score_updated_at TIMESTAMPTZ;
+UPDATE public.feedback_learning_index SET score_updated_at = updated_at WHERE score_updated_at IS NULL;
+ALTER TABLE public.feedback_learning_index ALTER COLUMN score_updated_at SET DEFAULT now();
+ALTER TABLE public.feedback_learning_index ALTER COLUMN score_updated_at SET NOT NULL;
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS learning_half_life_days INTEGER NOT NULL DEFAULT 180;
+
+-- 2. The score a row has decayed to by now
+CREATE OR REPLACE FUNCTION public.decayed_learned_score(_score float8, _as_of timestamptz, _half_life_days integer)
+RETURNS float8 LANGUAGE sql STABLE AS $$
+  SELECT CASE
+    WHEN _half_life_days IS NULL OR _half_life_days <= 0 OR _as_of IS NULL THEN _score
+    ELSE _score * power(0.5, GREATEST(extract(epoch FROM now() - _as_of), 0) / (_half_life_days * 86400.0))
+  END;
+$$;
+
+-- 3. Read time: the learned engine ranks on decayed scores
+CREATE OR REPLACE FUNCTION public.match_learned_documents(
+  query_embedding vector(768),
+  match_user_id uuid,
+  match_threshold float DEFAULT 0.3,
+  match_count int DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  url text,
+  title text,
+  snippet text,
+  learned_score float8,
+  similarity float8
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'extensions'
+AS $$
+  SELECT
+    fli.id,
+    fli.url,
+    fli.title,
+    fli.snippet,
+    decayed_learned_score(fli.learned_score, fli.score_updated_at, p.learning_half_life_days) AS learned_score,
+    1 - (fli.embedding <=> query_embedding) AS similarity
+  FROM feedback_learning_index fli
+  LEFT JOIN profiles p ON p.id = match_user_id
+  WHERE fli.user_id = match_user_id
+    AND fli.embedding IS NOT NULL
+    AND 1 - (fli.embedding <=> query_embedding) > match_threshold
+  ORDER BY fli.embedding <=> query_embedding ASC
+  LIMIT match_count;
+$$;
+
+-- 4. Persists the decay into learned_score (all users, or one), so plain
+--    reads of the column stay close to current. Rows brought current less
+--    than a day ago are skipped; scores that fall below 0.01 bottom out at
+--    0, as update-learning-index's ignore penalty does. Returns the number
+--    of rows updated. Service role only.
+CREATE OR REPLACE FUNCTION public.decay_learned_scores(_user_id uuid DEFAULT NULL)
+RETURNS integer LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  updated integer;
+BEGIN
+  UPDATE feedback_learning_index fli
+  SET learned_score = CASE
+        WHEN decayed_learned_score(fli.learned_score, fli.score_updated_at, p.learning_half_life_days) < 0.01 THEN 0
+        ELSE decayed_learned_score(fli.learned_score, fli.score_updated_at, p.learning_half_life_days)
+      END,
+      score_updated_at = now()
+  FROM profiles p
+  WHERE p.id = fli.user_id
+    AND p.learning_half_life_days > 0
+    AND fli.learned_score > 0
+    AND fli.score_updated_at < now() - interval '1 day'
+    AND (_user_id IS NULL OR fli.user_id = _user_id);
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END $$;
+
+REVOKE EXECUTE ON FUNCTION public.decay_learned_scores(uuid) FROM PUBLIC, anon, authenticated;
+
+-- 5. Nightly persistence where pg_cron is available; update-learning-index
+--    also persists the signed-in user's rows after every session
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('decay-learned-scores', '30 3 * * *', 'SELECT public.decay_learned_scores()');
+  END IF;
+END $$;
+
+RESET search_path;
@@ -0,0 +1,188 @@
+-- ============================================================
+-- PersonaSearch: Relevance Matrix Migration
+-- Adds: feedback_learning_index.query_normalized with a unique
+--       (user_id, query_normalized, url) key, replacing query_matches;
+--       match_learned_query(); match_learned_documents() excluding
+--       documents the exact query already rated
+-- Safe to run multiple times (idempotent)
+-- ============================================================
+
+SET search_path TO 'public', 'extensions';
+
+-- 1. One row per (user, query, document), as planned in N_PLUS_ONE_PLAN.md.
+--    Existing rows are split into one row per query they matched (each
+--    starting from the row's score): the row itself takes its first query,
+--    so only further queries copy it (and its embedding). Rows that never
+--    recorded a query keep their score under the '' sentinel query, which
+--    no search matches exactly but semantic matching still finds.
+ALTER TABLE public.feedback_learning_index ADD COLUMN IF NOT EXISTS query_normalized TEXT;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'feedback_learning_index' AND column_name = 'query_matches'
+  ) THEN
+    -- Every (user, query, url) key to create, from the best-scored row that has it
+    CREATE TEMP TABLE fli_split AS
+    SELECT DISTINCT ON (fli.user_id, q.normalized, fli.url)
+      fli.id AS source_id, q.normalized
+    FROM public.feedback_learning_index fli
+    CROSS JOIN LATERAL (
+      SELECT DISTINCT lower(regexp_replace(btrim(m), '\s+', ' ', 'g')) AS normalized
+      FROM unnest(fli.query_matches) AS m
+      WHERE btrim(m) <> ''
+      UNION ALL
+      SELECT ''
+      WHERE NOT EXISTS (SELECT 1 FROM unnest(fli.query_matches) AS m WHERE btrim(m) <> '')
+    ) q
+    WHERE fli.query_normalized IS NULL
+    ORDER BY fli.user_id, q.normalized, fli.url, fli.learned_score DESC;
+
+    UPDATE public.feedback_learning_index fli
+    SET query_normalized = first.normalized
+    FROM (
+      SELECT DISTINCT ON (source_id) source_id, normalized
+      FROM fli_split
+      ORDER BY source_id, normalized
+    ) first
+    WHERE fli.id = first.source_id;
+
+    INSERT INTO public.feedback_learning_index
+      (user_id, url, title, snippet, learned_score, ignored_count, embedding, updated_at, score_updated_at, query_normalized)
+    SELECT
+      fli.user_id, fli.url, fli.title, fli.snippet, fli.learned_score, fli.ignored_count,
+      fli.embedding, fli.updated_at, fli.score_updated_at, s.normalized
+    FROM fli_split s
+    JOIN public.feedback_learning_index fli ON fli.id = s.source_id
+    WHERE s.normalized <> fli.query_normalized;
+
+    -- Left over: lower-scored duplicates of a (user, url) whose keys are taken
+    DELETE FROM public.feedback_learning_index WHERE query_normalized IS NULL;
+    DROP TABLE fli_split;
+    ALTER TABLE public.feedback_learning_index DROP COLUMN query_matches;
+  END IF;
+END $$;
+
+ALTER TABLE public.feedback_learning_index ALTER COLUMN query_normalized SET NOT NULL;
+ALTER TABLE public.feedback_learning_index ALTER COLUMN ignored_count SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'feedback_learning_index_user_query_url_key'
+  ) THEN
+    ALTER TABLE public.feedback_learning_index
+      ADD CONSTRAINT feedback_learning_index_user_query_url_key UNIQUE (user_id, query_normalized, url);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_fli_user_url ON public.feedback_learning_index (user_id, url);
+
+-- 2. Exact-query hits: the matrix row of every document rated for this
+--    query, with time-decayed scores
+CREATE OR REPLACE FUNCTION public.match_learned_query(
+  match_user_id uuid,
+  match_query_normalized text,
+  min_score float DEFAULT 0.2,
+  match_count int DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  url text,
+  title text,
+  snippet text,
+  learned_score float8
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'extensions'
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      fli.id,
+      fli.url,
+      fli.title,
+      fli.snippet,
+      decayed_learned_score(fli.learned_score, fli.score_updated_at, p.learning_half_life_days) AS learned_score
+    FROM feedback_learning_index fli
+    LEFT JOIN profiles p ON p.id = match_user_id
+    WHERE fli.user_id = match_user_id
+      AND fli.query_normalized = match_query_normalized
+  ) rated
+  WHERE rated.learned_score > min_score
+  ORDER BY rated.learned_score DESC
+  LIMIT match_count;
+$$;
+
+-- 3. Semantic matches: one entry per document (its best-scored row), and
+--    none for documents that already have a row for the exact query, so
+--    a document rated down for this query isn't brought back by others.
+--    The nearest rows are fetched first by distance alone, so the HNSW
+--    index serves the scan; thresholding and per-document dedup run on
+--    that bounded candidate set.
+DROP FUNCTION IF EXISTS public.match_learned_documents(vector, uuid, float, int);
+
+CREATE OR REPLACE FUNCTION public.match_learned_documents(
+  query_embedding vector(768),
+  match_user_id uuid,
+  match_threshold float DEFAULT 0.3,
+  match_count int DEFAULT 20,
+  exclude_query_normalized text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  url text,
+  title text,
+  snippet text,
+  learned_score float8,
+  similarity float8
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'extensions'
+AS $$
+  WITH candidates AS (
+    SELECT fli.id, fli.url, fli.title, fli.snippet, fli.learned_score, fli.score_updated_at,
+           fli.embedding <=> query_embedding AS distance
+    FROM feedback_learning_index fli
+    WHERE fli.user_id = match_user_id
+      AND fli.embedding IS NOT NULL
+    ORDER BY fli.embedding <=> query_embedding
+    LIMIT match_count * 5
+  )
+  SELECT *
+  FROM (
+    SELECT DISTINCT ON (c.url)
+      c.id,
+      c.url,
+      c.title,
+      c.snippet,
+      decayed_learned_score(c.learned_score, c.score_updated_at, p.learning_half_life_days) AS learned_score,
+      1 - c.distance AS similarity
+    FROM candidates c
+    LEFT JOIN profiles p ON p.id = match_user_id
+    WHERE 1 - c.distance > match_threshold
+      AND NOT EXISTS (
+        SELECT 1 FROM feedback_learning_index rated
+        WHERE rated.user_id = match_user_id
+          AND rated.query_normalized = exclude_query_normalized
+          AND rated.url = c.url
+      )
+    ORDER BY c.url, c.learned_score DESC
+  ) per_document
+  ORDER BY per_document.similarity DESC
+  LIMIT match_count;
+$$;
+
+-- Both read any user's matrix by id, so only the service role
+-- (multi-search) may call them
+REVOKE EXECUTE ON FUNCTION public.match_learned_query(uuid, text, float, int)
+  FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_learned_documents(vector, uuid, float, int, text)
+  FROM PUBLIC, anon, authenticated;
+
+RESET search_path;
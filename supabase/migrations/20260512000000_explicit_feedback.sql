@@ -0,0 +1,59 @@
+-- ============================================================
+-- PersonaSearch: Explicit Feedback Migration
+-- Adds: result_judgments, pinned_results, blocked_domains tables
+-- Safe to run multiple times (idempotent)
+-- ============================================================
+
+-- 1. Thumbs up / down on a result, for one normalized query (the key of
+--    the feedback_learning_index relevance matrix). update-learning-index
+--    turns them into strong updates of the matrix row. A "relevant"
+--    judgment is applied once: applied_at is set when it is, and reset to
+--    NULL by the client whenever the judgment is (re)recorded.
+CREATE TABLE IF NOT EXISTS public.result_judgments (
+  id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id           UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  query_normalized  TEXT NOT NULL,
+  url               TEXT NOT NULL,
+  judgment          TEXT NOT NULL CHECK (judgment IN ('relevant', 'not_relevant')),
+  applied_at        TIMESTAMPTZ,
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, query_normalized, url)
+);
+
+-- 2. Results pinned for a normalized query: multi-search places them
+--    first, in pinning order, whether or not an engine returned them
+CREATE TABLE IF NOT EXISTS public.pinned_results (
+  id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id           UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  query_normalized  TEXT NOT NULL,
+  url               TEXT NOT NULL,
+  title             TEXT NOT NULL DEFAULT '',
+  snippet           TEXT NOT NULL DEFAULT '',
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, query_normalized, url)
+);
+
+-- 3. Domains never shown to the user; a domain also blocks its subdomains.
+--    Stored without www. / m. / amp. prefixes, like canonicalUrl() hosts.
+CREATE TABLE IF NOT EXISTS public.blocked_domains (
+  user_id     UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  domain      TEXT NOT NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, domain)
+);
+
+ALTER TABLE public.result_judgments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pinned_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.blocked_domains ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  DROP POLICY IF EXISTS "Users own result judgments" ON public.result_judgments;
+  CREATE POLICY "Users own result judgments" ON public.result_judgments
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+  DROP POLICY IF EXISTS "Users own pinned results" ON public.pinned_results;
+  CREATE POLICY "Users own pinned results" ON public.pinned_results
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+  DROP POLICY IF EXISTS "Users own blocked domains" ON public.blocked_domains;
+  CREATE POLICY "Users own blocked domains" ON public.blocked_domains
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+END $$;
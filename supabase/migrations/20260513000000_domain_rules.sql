@@ -0,0 +1,31 @@
+-- ============================================================
+-- PersonaSearch: Domain Rules Migration
+-- Adds: profiles.domain_rules
+-- Safe to run multiple times (idempotent)
+-- ============================================================
+
+-- 1. The user's boost / demote rules, applied by rankResults() for every
+--    aggregation method: [{ "domain": "docs.python.org",
+--    "action": "boost" | "demote", "factor": 1-10 }, ...]
+--    Blocking a domain is a blocked_domains row, not a rule.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS domain_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- 2. Earlier "block" rules become blocked_domains rows, so there is one
+--    block list (which pins and every vertical respect).
+INSERT INTO public.blocked_domains (user_id, domain)
+SELECT DISTINCT p.id, regexp_replace(lower(btrim(r ->> 'domain')), '^(www[0-9]*|m|mobile|amp)\.', '')
+FROM public.profiles p
+CROSS JOIN LATERAL jsonb_array_elements(p.domain_rules) AS r
+WHERE jsonb_typeof(p.domain_rules) = 'array'
+  AND r ->> 'action' = 'block'
+  AND btrim(coalesce(r ->> 'domain', '')) <> ''
+ON CONFLICT (user_id, domain) DO NOTHING;
+
+UPDATE public.profiles p
+SET domain_rules = (
+  SELECT coalesce(jsonb_agg(r ORDER BY i), '[]'::jsonb)
+  FROM jsonb_array_elements(p.domain_rules) WITH ORDINALITY AS e(r, i)
+  WHERE r ->> 'action' IS DISTINCT FROM 'block'
+)
+WHERE jsonb_typeof(p.domain_rules) = 'array'
+  AND p.domain_rules @> '[{"action": "block"}]'::jsonb;
@@ -0,0 +1,185 @@
+-- ============================================================
+-- PersonaSearch: Community Engine Migration
+-- Adds: profiles.share_learning (opt-in), learning_centroids,
+--       refresh_learning_centroids(), match_community_documents()
+-- Safe to run multiple times (idempotent)
+-- ============================================================
+
+SET search_path TO 'public', 'extensions';
+
+-- 1. Opt-in to the collaborative "community" engine. Only users who share
+--    their own learned documents receive other users' in return.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS share_learning BOOLEAN NOT NULL DEFAULT false;
+
+-- 2. Each user's interest profile: the centroid of the embeddings of the
+--    documents they rated positively, so a search doesn't average every
+--    opted-in user's rows. Service role only.
+CREATE TABLE IF NOT EXISTS public.learning_centroids (
+  user_id     UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  centroid    vector(768) NOT NULL,
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.learning_centroids ENABLE ROW LEVEL SECURITY;
+
+-- 3. Recomputes the centroids of one user (or all); users without a
+--    positively rated document lose theirs. Returns the number of
+--    centroids written. Service role only.
+CREATE OR REPLACE FUNCTION public.refresh_learning_centroids(_user_id uuid DEFAULT NULL)
+RETURNS integer LANGUAGE plpgsql SECURITY DEFINER SET search_path TO 'public', 'extensions' AS $$
+DECLARE
+  written integer;
+BEGIN
+  INSERT INTO learning_centroids (user_id, centroid, updated_at)
+  SELECT fli.user_id, avg(fli.embedding), now()
+  FROM feedback_learning_index fli
+  WHERE fli.learned_score > 0
+    AND fli.embedding IS NOT NULL
+    AND (_user_id IS NULL OR fli.user_id = _user_id)
+  GROUP BY fli.user_id
+  ON CONFLICT (user_id) DO UPDATE SET centroid = EXCLUDED.centroid, updated_at = EXCLUDED.updated_at;
+  GET DIAGNOSTICS written = ROW_COUNT;
+
+  DELETE FROM learning_centroids c
+  WHERE (_user_id IS NULL OR c.user_id = _user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM feedback_learning_index fli
+      WHERE fli.user_id = c.user_id AND fli.learned_score > 0 AND fli.embedding IS NOT NULL
+    );
+  RETURN written;
+END $$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_learning_centroids(uuid) FROM PUBLIC, anon, authenticated;
+
+SELECT public.refresh_learning_centroids();
+
+-- update-learning-index refreshes the user's centroid after every
+-- session; the nightly run catches up on decayed scores where pg_cron is
+-- available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('refresh-learning-centroids', '45 3 * * *', 'SELECT public.refresh_learning_centroids()');
+  END IF;
+END $$;
+
+-- Peers are found through the caller's queries
+CREATE INDEX IF NOT EXISTS idx_fli_query ON public.feedback_learning_index (query_normalized);
+
+-- 4. Documents that users with similar interests rated highly for the
+--    query. Peers are other opted-in users who rated documents under one
+--    of the caller's queries, or whose learning_centroids centroid is
+--    close to the caller's; the closest neighbour_count are kept. Each
+--    peer counts once per document, with their best matching row, so one
+--    user's many rows can't outweigh the others. A document is only
+--    returned when at least min_users of them (never fewer than 3) rated
+--    it, so no result can be traced to one user's history; no user ids
+--    leave the function. Documents the caller already rated for this
+--    query are left to the learned engine. Service role only.
+CREATE OR REPLACE FUNCTION public.match_community_documents(
+  match_user_id uuid,
+  match_query_normalized text,
+  query_embedding vector(768) DEFAULT NULL,
+  match_threshold float DEFAULT 0.75,
+  min_score float DEFAULT 0.3,
+  min_users int DEFAULT 3,
+  min_interest_similarity float DEFAULT 0.6,
+  neighbour_count int DEFAULT 50,
+  match_count int DEFAULT 20
+)
+RETURNS TABLE (
+  url text,
+  title text,
+  snippet text,
+  community_score float8,
+  contributors int
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'extensions'
+AS $$
+  WITH caller AS (
+    SELECT c.centroid
+    FROM learning_centroids c
+    WHERE c.user_id = match_user_id
+  ),
+  caller_queries AS (
+    SELECT DISTINCT fli.query_normalized
+    FROM feedback_learning_index fli
+    WHERE fli.user_id = match_user_id AND fli.learned_score > 0 AND fli.query_normalized <> ''
+  ),
+  query_peers AS (
+    SELECT fli.user_id, count(DISTINCT fli.query_normalized) AS shared_queries
+    FROM feedback_learning_index fli
+    JOIN caller_queries cq ON cq.query_normalized = fli.query_normalized
+    WHERE fli.user_id <> match_user_id AND fli.learned_score > 0
+    GROUP BY fli.user_id
+  ),
+  peers AS (
+    SELECT
+      p.id AS user_id,
+      coalesce(qp.shared_queries, 0) AS shared_queries,
+      1 - (c.centroid <=> (SELECT centroid FROM caller)) AS interest_similarity
+    FROM profiles p
+    LEFT JOIN query_peers qp ON qp.user_id = p.id
+    LEFT JOIN learning_centroids c ON c.user_id = p.id
+    WHERE p.share_learning
+      AND p.id <> match_user_id
+      AND (qp.user_id IS NOT NULL OR c.user_id IS NOT NULL)
+      AND EXISTS (SELECT 1 FROM profiles me WHERE me.id = match_user_id AND me.share_learning)
+  ),
+  neighbours AS (
+    SELECT peers.user_id
+    FROM peers
+    WHERE peers.shared_queries > 0 OR peers.interest_similarity >= min_interest_similarity
+    ORDER BY peers.shared_queries DESC, peers.interest_similarity DESC NULLS LAST
+    LIMIT neighbour_count
+  ),
+  rated AS (
+    SELECT
+      fli.user_id,
+      fli.url,
+      fli.title,
+      fli.snippet,
+      decayed_learned_score(fli.learned_score, fli.score_updated_at, p.learning_half_life_days) AS learned_score
+    FROM feedback_learning_index fli
+    JOIN neighbours n ON n.user_id = fli.user_id
+    LEFT JOIN profiles p ON p.id = fli.user_id
+    WHERE fli.query_normalized = match_query_normalized
+       OR (query_embedding IS NOT NULL AND 1 - (fli.embedding <=> query_embedding) > match_threshold)
+  ),
+  per_user AS (
+    SELECT DISTINCT ON (rated.user_id, rated.url)
+      rated.user_id,
+      rated.url,
+      rated.title,
+      rated.snippet,
+      rated.learned_score
+    FROM rated
+    WHERE rated.learned_score >= min_score
+    ORDER BY rated.user_id, rated.url, rated.learned_score DESC
+  )
+  SELECT
+    per_user.url,
+    mode() WITHIN GROUP (ORDER BY per_user.title) AS title,
+    mode() WITHIN GROUP (ORDER BY per_user.snippet) AS snippet,
+    avg(per_user.learned_score) AS community_score,
+    count(*)::int AS contributors
+  FROM per_user
+  WHERE NOT EXISTS (
+    SELECT 1 FROM feedback_learning_index own
+    WHERE own.user_id = match_user_id
+      AND own.query_normalized = match_query_normalized
+      AND own.url = per_user.url
+  )
+  GROUP BY per_user.url
+  HAVING count(*) >= GREATEST(min_users, 3)
+  ORDER BY contributors DESC, community_score DESC
+  LIMIT match_count;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.match_community_documents(uuid, text, vector, float, float, int, float, int, int)
+  FROM PUBLIC, anon, authenticated;
+
+RESET search_path;
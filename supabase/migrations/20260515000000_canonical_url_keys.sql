@@ -0,0 +1,16 @@
+-- ============================================================
+-- PersonaSearch: Canonical URL Keys Migration
+-- Adds: url_key on web_pages and crawl_queue
+-- Safe to run multiple times (idempotent)
+-- ============================================================
+
+-- canonicalUrl() of the row's URL (supabase/functions/_shared/url.ts),
+-- written by multi-search and crawl-page, so http/https, www., tracking
+-- parameter and AMP variants of a page already crawled or queued aren't
+-- queued again. Rows from before this column stay NULL; multi-search
+-- canonicalizes their url instead.
+ALTER TABLE public.web_pages ADD COLUMN IF NOT EXISTS url_key TEXT;
+ALTER TABLE public.crawl_queue ADD COLUMN IF NOT EXISTS url_key TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_web_pages_url_key ON public.web_pages (url_key);
+CREATE INDEX IF NOT EXISTS idx_crawl_queue_url_key ON public.crawl_queue (url_key);